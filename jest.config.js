@@ -3,5 +3,6 @@ module.exports = {
   preset: 'ts-jest',
   testEnvironment: 'node',
   testPathIgnorePatterns: ["/node_modules/","/out/"],
+  moduleNameMapper: { '^vscode$': '<rootDir>/src/testing/vscode.ts' },
   setupFiles: ['./jest.setup.js']
-};
\ No newline at end of file
+};
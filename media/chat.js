@@ -0,0 +1,112 @@
+// Chat view script, messages are rendered from segments prepared by the extension
+(function () {
+    const vscode = acquireVsCodeApi();
+    const list = document.getElementById('messages');
+    const error = document.getElementById('error');
+    const form = document.getElementById('form');
+    const input = document.getElementById('input');
+    const send = document.getElementById('send');
+    let busy = false;
+
+    function button(title, type, code) {
+        let el = document.createElement('button');
+        el.textContent = title;
+        el.addEventListener('click', () => vscode.postMessage({ type, code }));
+        return el;
+    }
+
+    function render(message) {
+        let el = document.createElement('div');
+        el.className = 'message ' + message.role;
+        if (message.context) {
+            let context = document.createElement('div');
+            context.className = 'context';
+            context.textContent = message.context;
+            el.appendChild(context);
+        }
+        for (let segment of message.segments) {
+            if (segment.kind === 'text') {
+                let text = document.createElement('div');
+                text.className = 'text';
+                text.textContent = segment.text;
+                el.appendChild(text);
+                continue;
+            }
+            let block = document.createElement('div');
+            block.className = 'code';
+            let header = document.createElement('div');
+            header.className = 'header';
+            let language = document.createElement('span');
+            language.textContent = segment.language;
+            header.append(language, button('Insert', 'insert', segment.code), button('Copy', 'copy', segment.code));
+            let pre = document.createElement('pre');
+            let code = document.createElement('code');
+            code.textContent = segment.code;
+            pre.appendChild(code);
+            block.append(header, pre);
+            el.appendChild(block);
+        }
+        return el;
+    }
+
+    // Keep scrolled to the bottom while reply is streamed unless user scrolled up
+    function update(func) {
+        let bottom = list.scrollHeight - list.scrollTop - list.clientHeight < 20;
+        func();
+        if (bottom) {
+            list.scrollTop = list.scrollHeight;
+        }
+    }
+
+    window.addEventListener('message', (event) => {
+        let message = event.data;
+        switch (message.type) {
+            case 'messages':
+                update(() => list.replaceChildren(...message.messages.map(render)));
+                break;
+            case 'update':
+                update(() => {
+                    let el = render(message.message);
+                    if (message.index < list.children.length) {
+                        list.replaceChild(el, list.children[message.index]);
+                    } else {
+                        list.appendChild(el);
+                    }
+                });
+                break;
+            case 'busy':
+                busy = message.busy;
+                send.textContent = busy ? 'Stop' : 'Send';
+                break;
+            case 'error':
+                error.textContent = message.message;
+                error.hidden = false;
+                break;
+        }
+    });
+
+    form.addEventListener('submit', (event) => {
+        event.preventDefault();
+        if (busy) {
+            vscode.postMessage({ type: 'stop' });
+            return;
+        }
+        let text = input.value.trim();
+        if (text.length === 0) {
+            return;
+        }
+        error.hidden = true;
+        input.value = '';
+        vscode.postMessage({ type: 'ask', text });
+    });
+
+    // Enter sends, Shift+Enter adds new line
+    input.addEventListener('keydown', (event) => {
+        if (event.key === 'Enter' && !event.shiftKey && !event.isComposing) {
+            event.preventDefault();
+            form.requestSubmit();
+        }
+    });
+
+    vscode.postMessage({ type: 'ready' });
+}());
@@ -0,0 +1,99 @@
+export type BackendType = 'ollama' | 'openai' | 'llamacpp' | 'tgi';
+
+export type CompletionRequest = {
+    model: string,
+    prompt: string,
+    stop: string[],
+    maxTokens: number,
+    temperature: number,
+    contextWindow?: number,
+    topP?: number,
+    topK?: number,
+    repeatPenalty?: number,
+    seed?: number,
+    keepAlive?: string | number, // How long server keeps the model loaded after the request
+    signal?: AbortSignal, // Aborts the HTTP request, stopping generation on the server
+    onStats?: (stats: GenerationStats) => void // Called when server finishes generation and reports statistics
+};
+
+// Statistics of finished generation, durations are in milliseconds and null when server does not report them
+export type GenerationStats = {
+    promptTokens: number | null,
+    promptMs: number | null,
+    generatedTokens: number | null,
+    generationMs: number | null,
+    loadMs: number | null,
+    totalMs: number | null,
+    stopReason: string | null
+};
+
+export type ModelInfo = {
+    name: string,
+    size?: number
+};
+
+export type DownloadProgress = {
+    status: string,
+    digest?: string,
+    completed?: number,
+    total?: number
+};
+
+export interface Backend {
+
+    // Name of the backend, used for logging
+    readonly type: BackendType;
+    readonly endpoint: string;
+
+    // List models that are available on the server
+    listModels(): Promise<ModelInfo[]>;
+
+    // Check if model is available for inference
+    checkModel(model: string): Promise<boolean>;
+
+    // Context window size the server runs the model with, null if unknown
+    contextWindow?(model: string): Promise<number | null>;
+
+    // Load model into memory ahead of the first completion, options have to match completions or the model is loaded again
+    preload?(model: string, options: { contextWindow?: number, keepAlive?: string | number }): Promise<void>;
+
+    // Download and delete models, only supported by backends that can manage models
+    downloadModel?(model: string, onProgress?: (progress: DownloadProgress) => void, signal?: AbortSignal): Promise<void>;
+    deleteModel?(model: string): Promise<void>;
+
+    // Stream generated text for a raw (already formatted) prompt
+    generate(request: CompletionRequest): AsyncGenerator<string>;
+}
+
+export function authHeaders(bearerToken: string): { [key: string]: string } {
+    return bearerToken ? { Authorization: `Bearer ${bearerToken}` } : {};
+}
+
+export async function fetchJson<T>(url: string, bearerToken: string): Promise<T> {
+    let res = await fetch(url, { headers: authHeaders(bearerToken) });
+    if (!res.ok) {
+        throw Error(`Network response was not ok: ${res.status} ${url}`);
+    }
+    return await res.json() as T;
+}
+
+export function formatStats(stats: GenerationStats): string {
+    let parts: string[] = [];
+    if (stats.promptTokens !== null) {
+        parts.push(`prompt ${stats.promptTokens} tokens` + (stats.promptMs !== null ? ` in ${Math.round(stats.promptMs)} ms` : ''));
+    }
+    if (stats.generatedTokens !== null) {
+        let speed = stats.generationMs ? ` (${(stats.generatedTokens / stats.generationMs * 1000).toFixed(1)} tokens/s)` : '';
+        parts.push(`generated ${stats.generatedTokens} tokens` + (stats.generationMs !== null ? ` in ${Math.round(stats.generationMs)} ms` : '') + speed);
+    }
+    if (stats.loadMs) {
+        parts.push(`model loaded in ${Math.round(stats.loadMs)} ms`);
+    }
+    if (stats.totalMs !== null) {
+        parts.push(`total ${Math.round(stats.totalMs)} ms`);
+    }
+    if (stats.stopReason) {
+        parts.push(`stopped by ${stats.stopReason}`);
+    }
+    return parts.join(', ');
+}
@@ -0,0 +1,138 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { createBackend, formatStats, BackendType, GenerationStats } from '.';
+
+type Route = (body: any) => { status?: number, contentType?: string, chunks: string[] };
+
+async function withServer(routes: { [path: string]: Route }, fn: (endpoint: string, requests: { path: string, body: any }[]) => Promise<void>) {
+    let requests: { path: string, body: any }[] = [];
+    let server = http.createServer((req, res) => {
+        let data = '';
+        req.on('data', (c) => data += c);
+        req.on('end', () => {
+            let body = data ? JSON.parse(data) : null;
+            requests.push({ path: req.url!, body });
+            let route = routes[req.url!];
+            if (!route) {
+                res.writeHead(404);
+                res.end();
+                return;
+            }
+            let r = route(body);
+            res.writeHead(r.status ?? 200, { 'Content-Type': r.contentType ?? 'application/json' });
+            for (let c of r.chunks) {
+                res.write(c);
+            }
+            res.end();
+        });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    try {
+        await fn('http://127.0.0.1:' + (server.address() as AddressInfo).port, requests);
+    } finally {
+        await new Promise((resolve) => server.close(resolve));
+    }
+}
+
+async function collect(type: BackendType, endpoint: string, stats: GenerationStats[] = []) {
+    let backend = createBackend({ type, endpoint, bearerToken: '' });
+    let res = '';
+    for await (let token of backend.generate({ model: 'test', prompt: '<PRE>', stop: ['<EOT>'], maxTokens: 10, temperature: 0.2, onStats: (s) => stats.push(s) })) {
+        res += token;
+    }
+    return res;
+}
+
+describe('backends', () => {
+    it('should stream from ollama', async () => {
+        await withServer({
+            '/api/generate': () => ({ chunks: ['{"model":"test","response":"hel","done":false}\n{"model":"test",', '"response":"lo","done":false}\n', '{"model":"test","response":"","done":true}\n'] }),
+            '/api/tags': () => ({ chunks: ['{"models":[{"name":"test"}]}'] })
+        }, async (endpoint, requests) => {
+            expect(await collect('ollama', endpoint)).toBe('hello');
+            expect(requests[0].body.raw).toBe(true);
+            expect(requests[0].body.options.num_predict).toBe(10);
+            expect(await createBackend({ type: 'ollama', endpoint, bearerToken: '' }).checkModel('test')).toBe(true);
+        });
+    });
+
+    it('should stream from openai-compatible server', async () => {
+        await withServer({
+            '/v1/completions': () => ({ contentType: 'text/event-stream', chunks: ['data: {"choices":[{"text":"hel","finish_reason":null}]}\n\n', 'data: {"choices":[{"text":"lo","finish_reason":"stop"}]}\n\n', 'data: {"choices":[],"usage":{"prompt_tokens":12,"completion_tokens":2}}\n\n', 'data: [DONE]\n\n'] }),
+            '/v1/models': () => ({ chunks: ['{"data":[{"id":"test"}]}'] })
+        }, async (endpoint, requests) => {
+            let stats: GenerationStats[] = [];
+            expect(await collect('openai', endpoint, stats)).toBe('hello');
+            expect(requests[0].body.max_tokens).toBe(10);
+            expect(requests[0].body.stream).toBe(true);
+            expect(requests[0].body.stream_options).toEqual({ include_usage: true });
+            expect(stats).toEqual([{ promptTokens: 12, promptMs: null, generatedTokens: 2, generationMs: null, loadMs: null, totalMs: null, stopReason: 'stop' }]);
+            let backend = createBackend({ type: 'openai', endpoint, bearerToken: '' });
+            expect(await backend.listModels()).toEqual([{ name: 'test' }]);
+            expect(await backend.checkModel('other')).toBe(false);
+            expect(backend.downloadModel).toBeUndefined();
+        });
+    });
+
+    it('should stream from llama.cpp server', async () => {
+        await withServer({
+            '/completion': () => ({ contentType: 'text/event-stream', chunks: ['data: {"content":"hel","stop":false}\n\n', 'data: {"content":"lo","stop":true,"stop_type":"limit","timings":{"prompt_n":12,"prompt_ms":30.5,"predicted_n":2,"predicted_ms":20}}\n\n'] }),
+            '/health': () => ({ chunks: ['{"status":"ok"}'] })
+        }, async (endpoint, requests) => {
+            let stats: GenerationStats[] = [];
+            expect(await collect('llamacpp', endpoint, stats)).toBe('hello');
+            expect(requests[0].body.n_predict).toBe(10);
+            expect(stats).toEqual([{ promptTokens: 12, promptMs: 30.5, generatedTokens: 2, generationMs: 20, loadMs: null, totalMs: 50.5, stopReason: 'length' }]);
+            expect(await createBackend({ type: 'llamacpp', endpoint, bearerToken: '' }).checkModel('any')).toBe(true);
+        });
+    });
+
+    it('should stream from text generation inference', async () => {
+        await withServer({
+            '/generate_stream': () => ({ contentType: 'text/event-stream', chunks: ['data:{"token":{"text":"hel","special":false},"generated_text":null}\n\n', 'data:{"token":{"text":"lo","special":false},"generated_text":null}\n\ndata:{"token":{"text":"</s>","special":true},"generated_text":"hello","details":{"finish_reason":"eos_token","generated_tokens":3}}\n\n'] }),
+            '/info': () => ({ chunks: ['{"model_id":"bigcode/starcoder"}'] })
+        }, async (endpoint, requests) => {
+            let stats: GenerationStats[] = [];
+            expect(await collect('tgi', endpoint, stats)).toBe('hello');
+            expect(requests[0].body.parameters.max_new_tokens).toBe(10);
+            expect(stats.map((s) => [s.generatedTokens, s.stopReason])).toEqual([[3, 'stop']]);
+            expect(await createBackend({ type: 'tgi', endpoint, bearerToken: '' }).listModels()).toEqual([{ name: 'bigcode/starcoder' }]);
+        });
+    });
+
+    it('should report ollama download progress and errors', async () => {
+        await withServer({
+            '/api/pull': (body) => ({ chunks: body.name === 'test' ? ['{"status":"pulling manifest"}\n{"status":"pulling abc","digest":"abc","total":100,"completed":50}\n', '{"status":"success"}\n'] : ['{"error":"pull model manifest: file does not exist"}\n'] })
+        }, async (endpoint) => {
+            let backend = createBackend({ type: 'ollama', endpoint, bearerToken: '' });
+            let progress: any[] = [];
+            await backend.downloadModel!('test', (p) => progress.push(p));
+            expect(progress.map((v) => v.status)).toEqual(['pulling manifest', 'pulling abc', 'success']);
+            expect(progress[1].completed).toBe(50);
+            await expect(backend.downloadModel!('missing')).rejects.toThrow('file does not exist');
+        });
+    });
+
+    it('should fail on server errors', async () => {
+        await withServer({
+            '/api/generate': () => ({ status: 500, chunks: ['{"error":"boom"}'] })
+        }, async (endpoint) => {
+            await expect(collect('ollama', endpoint)).rejects.toThrow('Unable to connect to backend');
+        });
+    });
+
+    it('should fail on error events of server-sent streams', async () => {
+        await withServer({
+            '/v1/completions': () => ({ contentType: 'text/event-stream', chunks: ['data: {"choices":[{"text":"hel","finish_reason":null}]}\r\n\r\n', 'data: {"error":{"message":"context length exceeded"}}\r\n\r\n'] })
+        }, async (endpoint) => {
+            await expect(collect('openai', endpoint)).rejects.toMatchObject({ name: 'ServerError', message: 'context length exceeded' });
+        });
+    });
+
+    it('should format generation stats', () => {
+        expect(formatStats({ promptTokens: 120, promptMs: 40.4, generatedTokens: 30, generationMs: 600, loadMs: null, totalMs: 650, stopReason: 'length' }))
+            .toBe('prompt 120 tokens in 40 ms, generated 30 tokens in 600 ms (50.0 tokens/s), total 650 ms, stopped by length');
+        expect(formatStats({ promptTokens: null, promptMs: null, generatedTokens: 3, generationMs: null, loadMs: 1500, totalMs: null, stopReason: null }))
+            .toBe('generated 3 tokens, model loaded in 1500 ms');
+    });
+});
@@ -0,0 +1,30 @@
+import { warn } from '../modules/log';
+import { Backend } from './backend';
+
+// Ollama's default num_ctx, it is also a safe guess for other servers
+export const defaultContextWindow = 2048;
+
+let detected = new Map<string, number>();
+
+// Resolve context window of the model, detection results are cached since they don't change while the server runs
+export async function resolveContextWindow(backend: Backend, model: string, configured: number): Promise<number> {
+    if (configured > 0) {
+        return configured;
+    }
+    let key = backend.type + ':' + backend.endpoint + ':' + model;
+    let cached = detected.get(key);
+    if (cached !== undefined) {
+        return cached;
+    }
+    let res = defaultContextWindow;
+    if (backend.contextWindow) {
+        try {
+            res = (await backend.contextWindow(model)) ?? defaultContextWindow;
+        } catch (e) {
+            warn('Unable to detect context window:', e);
+            return defaultContextWindow; // Do not cache so it is detected once server is back
+        }
+    }
+    detected.set(key, res);
+    return res;
+}
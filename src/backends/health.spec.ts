@@ -0,0 +1,112 @@
+import { Backend } from './backend';
+import { Health, HealthMonitor, describeError, probeEndpoints } from './health';
+
+function backend(checkModel: (model: string) => Promise<boolean>): Backend {
+    return {
+        type: 'ollama',
+        endpoint: 'http://127.0.0.1:11434',
+        listModels: async () => [],
+        checkModel,
+        generate: async function* () { }
+    };
+}
+
+function networkError() {
+    return new TypeError('fetch failed', { cause: { code: 'ECONNREFUSED' } });
+}
+
+describe('probeEndpoints', () => {
+    it('should be online when any endpoint has the model', async () => {
+        let health = await probeEndpoints([
+            { name: 'gpu', model: 'test', backend: backend(async () => { throw networkError(); }) },
+            { name: 'local', model: 'test', backend: backend(async () => true) }
+        ]);
+        expect(health).toEqual({ state: 'online', message: null });
+    });
+
+    it('should prefer server errors over unreachable servers', async () => {
+        let health = await probeEndpoints([
+            { name: 'gpu', model: 'test', backend: backend(async () => { throw networkError(); }) },
+            { name: 'local', model: 'test', backend: backend(async () => false) }
+        ]);
+        expect(health).toEqual({ state: 'error', message: 'Model test is not available on local' });
+    });
+
+    it('should be offline when nothing is reachable', async () => {
+        let health = await probeEndpoints([{ name: 'gpu', model: 'test', backend: backend(async () => { throw networkError(); }) }]);
+        expect(health).toEqual({ state: 'offline', message: 'Unable to reach gpu: ECONNREFUSED' });
+    });
+});
+
+describe('describeError', () => {
+    it('should treat http errors as server errors', () => {
+        expect(describeError(new Error('Network response was not ok: 500'), 'gpu')).toEqual({ state: 'error', message: 'gpu: Network response was not ok: 500' });
+    });
+});
+
+describe('HealthMonitor', () => {
+    beforeEach(() => {
+        jest.useFakeTimers();
+    });
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it('should back off exponentially while offline', async () => {
+        let calls = 0;
+        let online = false;
+        let changes: Health[] = [];
+        let monitor = new HealthMonitor(async () => {
+            calls++;
+            return online ? { state: 'online', message: null } : { state: 'offline', message: 'down' };
+        }, (h) => changes.push(h));
+
+        await monitor.check();
+        expect(calls).toBe(1);
+        await jest.advanceTimersByTimeAsync(5000);
+        expect(calls).toBe(2);
+        await jest.advanceTimersByTimeAsync(9999);
+        expect(calls).toBe(2);
+        await jest.advanceTimersByTimeAsync(1);
+        expect(calls).toBe(3);
+
+        // Back online, periodic checks every minute
+        online = true;
+        await jest.advanceTimersByTimeAsync(20000);
+        expect(calls).toBe(4);
+        await jest.advanceTimersByTimeAsync(60000);
+        expect(calls).toBe(5);
+        expect(changes.map((v) => v.state)).toEqual(['offline', 'online']);
+        monitor.dispose();
+    });
+
+    it('should cap backoff and stop after dispose', async () => {
+        let calls = 0;
+        let monitor = new HealthMonitor(async () => {
+            calls++;
+            return { state: 'offline', message: 'down' };
+        }, () => { });
+        await monitor.check();
+        await jest.advanceTimersByTimeAsync(60 * 60 * 1000);
+        let before = calls;
+        await jest.advanceTimersByTimeAsync(5 * 60 * 1000);
+        expect(calls).toBe(before + 1);
+        monitor.dispose();
+        await jest.advanceTimersByTimeAsync(60 * 60 * 1000);
+        expect(calls).toBe(before + 1);
+    });
+
+    it('should start backoff when request fails', async () => {
+        let calls = 0;
+        let monitor = new HealthMonitor(async () => {
+            calls++;
+            return { state: 'online', message: null };
+        }, () => { });
+        monitor.report({ state: 'offline', message: 'down' });
+        expect(monitor.health.state).toBe('offline');
+        await jest.advanceTimersByTimeAsync(5000);
+        expect(calls).toBe(1);
+        expect(monitor.health.state).toBe('online');
+        monitor.dispose();
+    });
+});
@@ -0,0 +1,130 @@
+import { Backend } from './backend';
+
+export type HealthState = 'online' | 'offline' | 'error';
+
+export type Health = {
+    state: HealthState,
+    message: string | null
+};
+
+export type ProbeTarget = {
+    name: string,
+    model: string,
+    backend: Backend
+};
+
+// Check endpoints in order, backend is online once any endpoint has the model
+export async function probeEndpoints(targets: ProbeTarget[]): Promise<Health> {
+    let failures: Health[] = [];
+    for (let target of targets) {
+        let exists: boolean;
+        try {
+            exists = await target.backend.checkModel(target.model);
+        } catch (e) {
+            failures.push(describeError(e, target.name));
+            continue;
+        }
+        if (exists) {
+            return { state: 'online', message: null };
+        }
+        failures.push({ state: 'error', message: `Model ${target.model} is not available on ${target.name}` });
+    }
+
+    // Reachable server with a problem is more actionable than unreachable one
+    let error = failures.find((v) => v.state === 'error');
+    return error ?? failures[0] ?? { state: 'offline', message: 'No endpoints configured' };
+}
+
+// Network errors mean server is offline, everything else is a server side error like model failing to load
+export function describeError(e: unknown, name: string): Health {
+    let error = (typeof e === 'object' && e !== null ? e : { message: String(e) }) as { name?: string, message?: string, cause?: { code?: string, message?: string } };
+    if (error.name === 'TypeError' && error.cause) { // fetch rejects with TypeError caused by the network error
+        return { state: 'offline', message: `Unable to reach ${name}: ${error.cause.code ?? error.cause.message}` };
+    }
+    return { state: 'error', message: `${name}: ${error.message}` };
+}
+
+const checkInterval = 60 * 1000;
+const minBackoff = 5 * 1000;
+const maxBackoff = 5 * 60 * 1000;
+
+//
+// Periodically probes inference servers. While servers are healthy they are checked every minute,
+// once they fail checks are retried with exponential backoff to avoid hammering a dead server.
+//
+
+export class HealthMonitor {
+    private probe: () => Promise<Health>;
+    private onChange: (health: Health) => void;
+    private timer: ReturnType<typeof setTimeout> | null = null;
+    private failures = 0;
+    private disposed = false;
+    health: Health = { state: 'online', message: null };
+
+    constructor(probe: () => Promise<Health>, onChange: (health: Health) => void) {
+        this.probe = probe;
+        this.onChange = onChange;
+    }
+
+    // Probe right away and reset backoff
+    async check(): Promise<Health> {
+        this.failures = 0;
+        return await this.run();
+    }
+
+    // Report result of a real request, failures start backoff without waiting for the next probe
+    report(health: Health) {
+        if (health.state === 'online') {
+            this.failures = 0;
+            this.set(health);
+            this.schedule();
+        } else if (this.health.state === 'online') {
+            this.failures = 1;
+            this.set(health);
+            this.schedule();
+        }
+    }
+
+    dispose() {
+        this.disposed = true;
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+    }
+
+    private async run(): Promise<Health> {
+        let health: Health;
+        try {
+            health = await this.probe();
+        } catch (e) {
+            health = describeError(e, 'Health check');
+        }
+        this.failures = health.state === 'online' ? 0 : this.failures + 1;
+        this.set(health);
+        this.schedule();
+        return health;
+    }
+
+    private set(health: Health) {
+        let changed = health.state !== this.health.state || health.message !== this.health.message;
+        this.health = health;
+        if (changed) {
+            this.onChange(health);
+        }
+    }
+
+    private schedule() {
+        if (this.disposed) {
+            return;
+        }
+        if (this.timer) {
+            clearTimeout(this.timer);
+        }
+        let delay = this.failures === 0 ? checkInterval : Math.min(maxBackoff, minBackoff * Math.pow(2, this.failures - 1));
+        this.timer = setTimeout(() => {
+            this.timer = null;
+            this.run();
+        }, delay);
+    }
+}
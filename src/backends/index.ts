@@ -0,0 +1,35 @@
+import { Backend, BackendType } from './backend';
+import { LlamaCppBackend } from './llamacpp';
+import { OllamaBackend } from './ollama';
+import { OpenAIBackend } from './openai';
+import { TGIBackend } from './tgi';
+
+export type { Backend, BackendType, CompletionRequest, DownloadProgress, GenerationStats, ModelInfo } from './backend';
+export { formatStats } from './backend';
+export { resolveContextWindow } from './contextWindow';
+export { generationOptions, parseKeepAlive } from './options';
+export type { GenerationOptions, ModelOptions } from './options';
+export { EndpointPool } from './pool';
+export { HealthMonitor, describeError, probeEndpoints } from './health';
+export type { Health, HealthState, ProbeTarget } from './health';
+export type { PooledEndpoint, Routing } from './pool';
+
+export const defaultEndpoints: { [key in BackendType]: string } = {
+    ollama: 'http://127.0.0.1:11434',
+    openai: 'http://127.0.0.1:8000',
+    llamacpp: 'http://127.0.0.1:8080',
+    tgi: 'http://127.0.0.1:8080'
+};
+
+export function createBackend(args: { type: BackendType, endpoint: string, bearerToken: string }): Backend {
+    switch (args.type) {
+        case 'openai':
+            return new OpenAIBackend(args.endpoint, args.bearerToken);
+        case 'llamacpp':
+            return new LlamaCppBackend(args.endpoint, args.bearerToken);
+        case 'tgi':
+            return new TGIBackend(args.endpoint, args.bearerToken);
+        default:
+            return new OllamaBackend(args.endpoint, args.bearerToken);
+    }
+}
@@ -0,0 +1,83 @@
+import { sseGenerator } from '../modules/sseGenerator';
+import { Backend, CompletionRequest, GenerationStats, authHeaders, fetchJson } from './backend';
+
+// Reported with the last chunk, also by llama.cpp's OpenAI-compatible endpoint
+export type LlamaCppTimings = {
+    prompt_n?: number,
+    prompt_ms?: number,
+    predicted_n?: number,
+    predicted_ms?: number
+};
+
+type LlamaCppChunk = {
+    content: string,
+    stop: boolean,
+    stop_type?: 'none' | 'eos' | 'limit' | 'word',
+    timings?: LlamaCppTimings
+};
+
+// llama.cpp's built-in server. It serves a single model that is loaded at startup.
+export class LlamaCppBackend implements Backend {
+    readonly type = 'llamacpp';
+    readonly endpoint: string;
+    readonly bearerToken: string;
+
+    constructor(endpoint: string, bearerToken: string) {
+        this.endpoint = endpoint;
+        this.bearerToken = bearerToken;
+    }
+
+    async listModels() {
+        let body = await fetchJson<{ data: { id: string }[] }>(this.endpoint + '/v1/models', this.bearerToken);
+        return body.data.map((v) => ({ name: v.id }));
+    }
+
+    async checkModel(model: string) {
+        // Model name is ignored by the server, it is enough that the loaded model is ready
+        let res = await fetch(this.endpoint + '/health', { headers: authHeaders(this.bearerToken) });
+        return res.ok;
+    }
+
+    async contextWindow(model: string) {
+        let body = await fetchJson<{ default_generation_settings?: { n_ctx?: number } }>(this.endpoint + '/props', this.bearerToken);
+        return body.default_generation_settings?.n_ctx ?? null;
+    }
+
+    async *generate(request: CompletionRequest) {
+        let data = {
+            prompt: request.prompt,
+            stop: request.stop,
+            n_predict: request.maxTokens,
+            temperature: request.temperature,
+            top_p: request.topP,
+            top_k: request.topK,
+            repeat_penalty: request.repeatPenalty,
+            seed: request.seed,
+            cache_prompt: true,
+            stream: true
+        };
+        for await (let chunk of sseGenerator<LlamaCppChunk>(this.endpoint + '/completion', data, this.bearerToken, request.signal)) {
+            yield chunk.content;
+            if (chunk.stop) {
+                if (request.onStats) {
+                    request.onStats(llamaCppStats(chunk.timings, chunk.stop_type === 'limit' ? 'length' : chunk.stop_type ? 'stop' : null));
+                }
+                break;
+            }
+        }
+    }
+}
+
+export function llamaCppStats(timings: LlamaCppTimings | undefined, stopReason: string | null): GenerationStats {
+    let promptMs = timings?.prompt_ms ?? null;
+    let generationMs = timings?.predicted_ms ?? null;
+    return {
+        promptTokens: timings?.prompt_n ?? null,
+        promptMs,
+        generatedTokens: timings?.predicted_n ?? null,
+        generationMs,
+        loadMs: null, // Model is loaded when server starts
+        totalMs: promptMs !== null && generationMs !== null ? promptMs + generationMs : null,
+        stopReason
+    };
+}
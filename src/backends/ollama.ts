@@ -0,0 +1,101 @@
+import { ollamaCheckModel } from '../modules/ollamaCheckModel';
+import { ollamaDeleteModel } from '../modules/ollamaDeleteModel';
+import { ollamaDownloadModel } from '../modules/ollamaDownloadModel';
+import { ollamaListModels } from '../modules/ollamaListModels';
+import { OllamaToken, ollamaTokenGenerator } from '../modules/ollamaTokenGenerator';
+import { Backend, CompletionRequest, DownloadProgress, GenerationStats, authHeaders } from './backend';
+
+export class OllamaBackend implements Backend {
+    readonly type = 'ollama';
+    readonly endpoint: string;
+    readonly bearerToken: string;
+
+    constructor(endpoint: string, bearerToken: string) {
+        this.endpoint = endpoint;
+        this.bearerToken = bearerToken;
+    }
+
+    listModels() {
+        return ollamaListModels(this.endpoint, this.bearerToken);
+    }
+
+    checkModel(model: string) {
+        return ollamaCheckModel(this.endpoint, model, this.bearerToken);
+    }
+
+    async contextWindow(model: string) {
+        let res = await fetch(this.endpoint + '/api/show', {
+            method: 'POST',
+            body: JSON.stringify({ name: model }),
+            headers: { 'Content-Type': 'application/json', ...authHeaders(this.bearerToken) }
+        });
+        if (!res.ok) {
+            throw Error(`Network response was not ok: ${res.status} ${this.endpoint}/api/show`);
+        }
+
+        // Ollama runs models with num_ctx from Modelfile or with its own default, not the context length the model was trained with
+        let body = await res.json() as { parameters?: string };
+        let match = body.parameters?.match(/^num_ctx\s+(\d+)/m);
+        return match ? parseInt(match[1], 10) : null;
+    }
+
+    async preload(model: string, options: { contextWindow?: number, keepAlive?: string | number }) {
+
+        // Request without a prompt only loads the model
+        let res = await fetch(this.endpoint + '/api/generate', {
+            method: 'POST',
+            body: JSON.stringify({ model, stream: false, keep_alive: options.keepAlive, options: { num_ctx: options.contextWindow } }),
+            headers: { 'Content-Type': 'application/json', ...authHeaders(this.bearerToken) }
+        });
+        if (!res.ok) {
+            throw Error(`Network response was not ok: ${res.status} ${this.endpoint}/api/generate`);
+        }
+        await res.text();
+    }
+
+    downloadModel(model: string, onProgress?: (progress: DownloadProgress) => void, signal?: AbortSignal) {
+        return ollamaDownloadModel(this.endpoint, model, this.bearerToken, onProgress, signal);
+    }
+
+    deleteModel(model: string) {
+        return ollamaDeleteModel(this.endpoint, model, this.bearerToken);
+    }
+
+    async *generate(request: CompletionRequest) {
+        let data = {
+            model: request.model,
+            prompt: request.prompt,
+            raw: true,
+            keep_alive: request.keepAlive,
+            options: {
+                stop: request.stop,
+                num_predict: request.maxTokens,
+                temperature: request.temperature,
+                num_ctx: request.contextWindow,
+                top_p: request.topP,
+                top_k: request.topK,
+                repeat_penalty: request.repeatPenalty,
+                seed: request.seed
+            }
+        };
+        for await (let token of ollamaTokenGenerator(this.endpoint + '/api/generate', data, this.bearerToken, request.signal)) {
+            yield token.response;
+            if (token.done && request.onStats) {
+                request.onStats(ollamaStats(token));
+            }
+        }
+    }
+}
+
+function ollamaStats(token: OllamaToken): GenerationStats {
+    let ms = (ns: number | undefined) => ns !== undefined ? ns / 1000000 : null;
+    return {
+        promptTokens: token.prompt_eval_count ?? null,
+        promptMs: ms(token.prompt_eval_duration),
+        generatedTokens: token.eval_count ?? null,
+        generationMs: ms(token.eval_duration),
+        loadMs: ms(token.load_duration),
+        totalMs: ms(token.total_duration),
+        stopReason: token.done_reason ?? null
+    };
+}
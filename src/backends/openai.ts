@@ -0,0 +1,79 @@
+import { sseGenerator } from '../modules/sseGenerator';
+import { Backend, CompletionRequest, GenerationStats, fetchJson } from './backend';
+import { LlamaCppTimings, llamaCppStats } from './llamacpp';
+
+type OpenAIChunk = {
+    choices: { text: string, finish_reason: string | null }[],
+    usage?: { prompt_tokens?: number, completion_tokens?: number } | null,
+    timings?: LlamaCppTimings // llama.cpp only
+};
+
+// Any server implementing OpenAI's /v1/completions API: vLLM, LocalAI, LiteLLM and others
+export class OpenAIBackend implements Backend {
+    readonly type = 'openai';
+    readonly endpoint: string;
+    readonly bearerToken: string;
+
+    constructor(endpoint: string, bearerToken: string) {
+        this.endpoint = endpoint;
+        this.bearerToken = bearerToken;
+    }
+
+    async listModels() {
+        let body = await fetchJson<{ data: { id: string }[] }>(this.endpoint + '/v1/models', this.bearerToken);
+        return body.data.map((v) => ({ name: v.id }));
+    }
+
+    async checkModel(model: string) {
+        return (await this.listModels()).some((v) => v.name === model);
+    }
+
+    async *generate(request: CompletionRequest) {
+        let data = {
+            model: request.model,
+            prompt: request.prompt,
+            stop: request.stop,
+            max_tokens: request.maxTokens,
+            temperature: request.temperature,
+            top_p: request.topP,
+            seed: request.seed,
+
+            // Not in OpenAI API but supported by vLLM and llama.cpp, sent only when configured
+            top_k: request.topK,
+            repetition_penalty: request.repeatPenalty,
+            stream: true,
+
+            // Token usage is sent in a chunk without choices after the last one, only when asked for
+            stream_options: request.onStats ? { include_usage: true } : undefined
+        };
+        let stopReason: string | null = null;
+        let stats: GenerationStats | null = null;
+        for await (let chunk of sseGenerator<OpenAIChunk>(this.endpoint + '/v1/completions', data, this.bearerToken, request.signal)) {
+            if (chunk.choices.length > 0) {
+                stopReason = chunk.choices[0].finish_reason ?? stopReason;
+                yield chunk.choices[0].text;
+            }
+            if (chunk.timings) {
+                stats = llamaCppStats(chunk.timings, stopReason);
+            } else if (chunk.usage) {
+                stats = usageStats(chunk.usage, stopReason);
+            }
+        }
+        if (request.onStats && (stats || stopReason)) {
+            request.onStats({ ...(stats ?? usageStats(null, null)), stopReason });
+        }
+    }
+}
+
+// OpenAI API reports token counts only, durations are unknown
+function usageStats(usage: OpenAIChunk['usage'], stopReason: string | null): GenerationStats {
+    return {
+        promptTokens: usage?.prompt_tokens ?? null,
+        promptMs: null,
+        generatedTokens: usage?.completion_tokens ?? null,
+        generationMs: null,
+        loadMs: null,
+        totalMs: null,
+        stopReason
+    };
+}
@@ -0,0 +1,26 @@
+import { GenerationOptions, generationOptions, parseKeepAlive } from './options';
+
+const settings: GenerationOptions = { temperature: 0.2, contextWindow: 0, topP: null, topK: null, repeatPenalty: null, seed: null, keepAlive: '30m' };
+
+describe('generationOptions', () => {
+    it('should use settings without a profile', () => {
+        expect(generationOptions({ ...settings, modelOptions: {} }, 'codellama:7b-code-q4_K_M')).toEqual(settings);
+    });
+
+    it('should apply profile of the model', () => {
+        let modelOptions = {
+            'codellama': { num_ctx: 8192, top_p: 0.9 },
+            'codellama:13b-code-q4_K_M': { num_ctx: 16384, keep_alive: '-1' }
+        };
+        expect(generationOptions({ ...settings, modelOptions }, 'codellama:7b-code-q4_K_M')).toEqual({ ...settings, contextWindow: 8192, topP: 0.9 });
+        expect(generationOptions({ ...settings, modelOptions }, 'codellama:13b-code-q4_K_M')).toEqual({ ...settings, contextWindow: 16384, keepAlive: -1 });
+        expect(generationOptions({ ...settings, modelOptions }, 'stable-code:3b-code-q4_0')).toEqual(settings);
+    });
+
+    it('should parse keep alive durations', () => {
+        expect(parseKeepAlive('1h')).toBe('1h');
+        expect(parseKeepAlive(' -1 ')).toBe(-1);
+        expect(parseKeepAlive(300)).toBe(300);
+        expect(parseKeepAlive('')).toBeNull();
+    });
+});
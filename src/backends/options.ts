@@ -0,0 +1,47 @@
+// Per-model overrides with Ollama option names, e.g. "codellama": { "num_ctx": 8192, "keep_alive": "1h" }
+export type ModelOptions = {
+    num_ctx?: number,
+    temperature?: number,
+    top_p?: number,
+    top_k?: number,
+    repeat_penalty?: number,
+    seed?: number,
+    keep_alive?: string | number
+};
+
+// Sampling and server options of requests, null leaves the server default
+export type GenerationOptions = {
+    temperature: number,
+    contextWindow: number, // 0 - detect from the server
+    topP: number | null,
+    topK: number | null,
+    repeatPenalty: number | null,
+    seed: number | null,
+    keepAlive: string | number | null
+};
+
+// Options from settings with the profile of the model applied, profile is found by full name first and then by name without tag
+export function generationOptions(settings: GenerationOptions & { modelOptions: { [model: string]: ModelOptions } }, model: string): GenerationOptions {
+    let profile = settings.modelOptions[model] ?? settings.modelOptions[model.split(':')[0]] ?? {};
+    return {
+        temperature: profile.temperature ?? settings.temperature,
+        contextWindow: profile.num_ctx ?? settings.contextWindow,
+        topP: profile.top_p ?? settings.topP,
+        topK: profile.top_k ?? settings.topK,
+        repeatPenalty: profile.repeat_penalty ?? settings.repeatPenalty,
+        seed: profile.seed ?? settings.seed,
+        keepAlive: profile.keep_alive !== undefined ? parseKeepAlive(profile.keep_alive) : settings.keepAlive
+    };
+}
+
+// Ollama takes durations like "30m" or seconds as a number, negative keeps the model loaded until the server stops
+export function parseKeepAlive(value: string | number): string | number | null {
+    if (typeof value === 'number') {
+        return value;
+    }
+    value = value.trim();
+    if (value === '') {
+        return null;
+    }
+    return /^-?\d+$/.test(value) ? parseInt(value, 10) : value;
+}
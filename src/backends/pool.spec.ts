@@ -0,0 +1,62 @@
+import { EndpointPool, PooledEndpoint } from './pool';
+
+function endpoint(url: string): PooledEndpoint {
+    return { backend: 'ollama', endpoint: url, modelName: 'test' };
+}
+
+describe('EndpointPool', () => {
+    let gpu = endpoint('http://gpu:11434');
+    let cpu = endpoint('http://127.0.0.1:11434');
+
+    it('should keep configured order for failover', () => {
+        let pool = new EndpointPool(() => 0);
+        pool.success(gpu, 500);
+        pool.success(cpu, 100);
+        expect(pool.select([gpu, cpu], 'failover')).toEqual([gpu, cpu]);
+    });
+
+    it('should skip failed endpoints with exponential backoff', () => {
+        let now = 0;
+        let pool = new EndpointPool(() => now);
+        pool.failure(gpu);
+        expect(pool.select([gpu, cpu], 'failover')).toEqual([cpu]);
+        now = 1000;
+        expect(pool.select([gpu, cpu], 'failover')).toEqual([gpu, cpu]);
+
+        // Second failure doubles backoff
+        pool.failure(gpu);
+        expect(pool.backoff(gpu)).toBe(2000);
+        now = 2500;
+        expect(pool.select([gpu, cpu], 'failover')).toEqual([cpu]);
+
+        // Success resets backoff
+        now = 3000;
+        pool.success(gpu, 100);
+        pool.failure(gpu);
+        expect(pool.backoff(gpu)).toBe(1000);
+    });
+
+    it('should cap backoff', () => {
+        let pool = new EndpointPool(() => 0);
+        for (let i = 0; i < 20; i++) {
+            pool.failure(gpu);
+        }
+        expect(pool.backoff(gpu)).toBe(60 * 1000);
+    });
+
+    it('should route by smoothed latency', () => {
+        let pool = new EndpointPool(() => 0);
+        let other = endpoint('http://other:11434');
+
+        // Unmeasured endpoints are tried first
+        pool.success(gpu, 100);
+        expect(pool.select([gpu, cpu], 'latency')).toEqual([cpu, gpu]);
+
+        pool.success(cpu, 300);
+        expect(pool.select([cpu, gpu, other], 'latency')).toEqual([other, gpu, cpu]);
+
+        // Single slow response does not flip the order right away
+        pool.success(gpu, 500);
+        expect(pool.select([cpu, gpu], 'latency')).toEqual([gpu, cpu]);
+    });
+});
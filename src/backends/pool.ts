@@ -0,0 +1,79 @@
+import { BackendType } from './backend';
+
+export type Routing = 'failover' | 'latency';
+
+export type PooledEndpoint = {
+    backend: BackendType,
+    endpoint: string,
+    modelName: string
+};
+
+type EndpointState = {
+    failures: number,
+    retryAt: number,
+    latency: number | null
+};
+
+const minBackoff = 1000;
+const maxBackoff = 60 * 1000;
+const latencySmoothing = 0.3;
+
+//
+// Tracks health of configured endpoints: failed endpoints are skipped with exponential backoff
+// and successful ones are ordered either as configured or by smoothed latency.
+//
+
+export class EndpointPool {
+    private states = new Map<string, EndpointState>();
+    private now: () => number;
+
+    constructor(now: () => number = Date.now) {
+        this.now = now;
+    }
+
+    // Endpoints to try in order, endpoints that are backing off are excluded
+    select<T extends PooledEndpoint>(endpoints: T[], routing: Routing): T[] {
+        let now = this.now();
+        let available = endpoints.filter((e) => {
+            let state = this.states.get(key(e));
+            return !state || state.retryAt <= now;
+        });
+        if (routing === 'latency') {
+
+            // Unmeasured endpoints go first so they get measured, sort is stable so ties keep configured order
+            let latency = (e: T) => this.states.get(key(e))?.latency ?? -1;
+            available.sort((a, b) => latency(a) - latency(b));
+        }
+        return available;
+    }
+
+    success(endpoint: PooledEndpoint, latency: number) {
+        let state = this.states.get(key(endpoint));
+        let smoothed = state && state.latency !== null ? state.latency + (latency - state.latency) * latencySmoothing : latency;
+        this.states.set(key(endpoint), { failures: 0, retryAt: 0, latency: smoothed });
+    }
+
+    failure(endpoint: PooledEndpoint) {
+        let state = this.states.get(key(endpoint));
+        let failures = (state?.failures ?? 0) + 1;
+        let backoff = Math.min(maxBackoff, minBackoff * Math.pow(2, failures - 1));
+        this.states.set(key(endpoint), { failures, retryAt: this.now() + backoff, latency: state?.latency ?? null });
+    }
+
+    // Forget failures, e.g. once health check finds servers back online
+    reset() {
+        for (let [k, state] of this.states) {
+            this.states.set(k, { ...state, failures: 0, retryAt: 0 });
+        }
+    }
+
+    // Time in milliseconds until endpoint could be tried again, zero if it is available
+    backoff(endpoint: PooledEndpoint) {
+        let state = this.states.get(key(endpoint));
+        return state ? Math.max(0, state.retryAt - this.now()) : 0;
+    }
+}
+
+function key(endpoint: PooledEndpoint) {
+    return endpoint.backend + ':' + endpoint.endpoint + ':' + endpoint.modelName;
+}
@@ -0,0 +1,73 @@
+import { sseGenerator } from '../modules/sseGenerator';
+import { Backend, CompletionRequest, authHeaders, fetchJson } from './backend';
+
+type TGIChunk = {
+    token: { text: string, special: boolean },
+    generated_text: string | null,
+    details?: { finish_reason: 'length' | 'eos_token' | 'stop_sequence', generated_tokens: number } | null // Last chunk only
+};
+
+// HuggingFace Text Generation Inference. It serves a single model that is loaded at startup.
+export class TGIBackend implements Backend {
+    readonly type = 'tgi';
+    readonly endpoint: string;
+    readonly bearerToken: string;
+
+    constructor(endpoint: string, bearerToken: string) {
+        this.endpoint = endpoint;
+        this.bearerToken = bearerToken;
+    }
+
+    async listModels() {
+        let body = await fetchJson<{ model_id: string }>(this.endpoint + '/info', this.bearerToken);
+        return [{ name: body.model_id }];
+    }
+
+    async checkModel(model: string) {
+        // Model name is ignored by the server, it is enough that the loaded model is ready
+        let res = await fetch(this.endpoint + '/health', { headers: authHeaders(this.bearerToken) });
+        return res.ok;
+    }
+
+    async contextWindow(model: string) {
+        let body = await fetchJson<{ max_total_tokens?: number }>(this.endpoint + '/info', this.bearerToken);
+        return body.max_total_tokens ?? null;
+    }
+
+    async *generate(request: CompletionRequest) {
+        let data = {
+            inputs: request.prompt,
+            parameters: {
+                stop: request.stop,
+                max_new_tokens: request.maxTokens,
+
+                // TGI rejects zero temperature, greedy decoding is used when sampling is disabled
+                do_sample: request.temperature > 0,
+                temperature: request.temperature > 0 ? request.temperature : undefined,
+                top_p: request.topP,
+                top_k: request.topK,
+                repetition_penalty: request.repeatPenalty,
+                seed: request.seed,
+                details: true
+            }
+        };
+        for await (let chunk of sseGenerator<TGIChunk>(this.endpoint + '/generate_stream', data, this.bearerToken, request.signal)) {
+            if (!chunk.token.special) {
+                yield chunk.token.text;
+            }
+
+            // Stream reports generated tokens only, prompt size and timings are in headers of non-streaming responses
+            if (chunk.details && request.onStats) {
+                request.onStats({
+                    promptTokens: null,
+                    promptMs: null,
+                    generatedTokens: chunk.details.generated_tokens,
+                    generationMs: null,
+                    loadMs: null,
+                    totalMs: null,
+                    stopReason: chunk.details.finish_reason === 'length' ? 'length' : 'stop'
+                });
+            }
+        }
+    }
+}
@@ -0,0 +1,71 @@
+import path from 'path';
+import fs from 'fs/promises';
+import { createBackend } from '../backends';
+import { BenchOptions, formatResults, runBenchmark } from './benchmark';
+import { loadCorpus, maskSpans } from './corpus';
+import { MockOllama } from '../testing/ollamaServer';
+import { Recording, RecordingBackend } from './replay';
+
+const fixtures = path.join(__dirname, 'fixtures');
+const target = { model: 'stable-code:3b-code-q4_0', format: 'stable-code' as const, formatName: 'stable-code' };
+
+async function options(endpoint: string): Promise<BenchOptions> {
+    let samples = maskSpans(await loadCorpus(path.join(fixtures, 'corpus')), 12, 1);
+    return {
+        backend: createBackend({ type: 'ollama', endpoint, bearerToken: '' }),
+        targets: [target],
+        samples,
+        contextWindow: 2048,
+        maxTokens: 256,
+        maxLines: 16,
+        prefixRatio: 0.75,
+        temperature: 0.2
+    };
+}
+
+describe('runBenchmark', () => {
+    let recording: Recording;
+    beforeAll(async () => {
+        recording = JSON.parse(await fs.readFile(path.join(fixtures, 'recording.json'), 'utf8'));
+    });
+
+    it('should score recorded responses', async () => {
+        let replay = await new MockOllama({ recording }).start();
+        try {
+            let [result] = await runBenchmark(await options(replay.endpoint));
+            expect(result.samples).toBe(12);
+            expect(result.errors).toBe(0);
+            expect(result.exactMatch).toBeCloseTo(5 / 12);
+            expect(result.editSimilarity).toBeGreaterThan(0.8);
+            expect(result.editSimilarity).toBeLessThan(1);
+            expect(result.syntaxValid).toBeCloseTo(0.75);
+            expect(result.latency.p50).toBeLessThanOrEqual(result.latency.p99);
+            expect(formatResults([result]).split('\n')[1]).toMatch(/^stable-code:3b-code-q4_0\s+stable-code\s+12\s+0\s+41\.7%\s+0\.\d{3}\s+75\.0%/);
+        } finally {
+            await replay.close();
+        }
+    });
+
+    it('should record responses that replay the same way', async () => {
+        let replay = await new MockOllama({ recording }).start();
+        try {
+            let opts = await options(replay.endpoint);
+            let recorder = new RecordingBackend(opts.backend);
+            await runBenchmark({ ...opts, backend: recorder });
+            expect(recorder.recording).toEqual(recording);
+        } finally {
+            await replay.close();
+        }
+    });
+
+    it('should count prompts without recorded responses as errors', async () => {
+        let replay = await new MockOllama({ recording: { version: 1, responses: {} } }).start();
+        try {
+            let [result] = await runBenchmark(await options(replay.endpoint));
+            expect(result.errors).toBe(12);
+            expect(result.syntaxValid).toBeNull();
+        } finally {
+            await replay.close();
+        }
+    });
+});
@@ -0,0 +1,137 @@
+import { Backend } from '../backends';
+import { loadParser } from '../modules/treeSitter';
+import { autocomplete } from '../prompts/autocomplete';
+import { buildPrompt } from '../prompts/buildPrompt';
+import { PromptFormat, adaptPrompt } from '../prompts/processors/models';
+import { countTokens } from '../prompts/processors/tokens';
+import { Sample } from './corpus';
+import { editSimilarity, exactMatch, percentile, syntaxValid } from './metrics';
+
+export type BenchTarget = {
+    model: string,
+    format: PromptFormat,
+    formatName: string
+};
+
+export type BenchOptions = {
+    backend: Backend,
+    targets: BenchTarget[],
+    samples: Sample[],
+    contextWindow: number,
+    maxTokens: number,
+    maxLines: number,
+    prefixRatio: number,
+    temperature: number
+};
+
+export type BenchResult = {
+    model: string,
+    format: string,
+    samples: number,
+    errors: number,
+    exactMatch: number,
+    editSimilarity: number,
+    syntaxValid: number | null,
+    latency: { p50: number, p90: number, p99: number }
+};
+
+//
+// Complete every sample with every model and format, the same way completion provider does but without VS Code:
+// prompt is built without snippets from related files and secrets are not redacted.
+//
+
+export async function runBenchmark(options: BenchOptions, onProgress?: (target: BenchTarget, done: number) => void): Promise<BenchResult[]> {
+    let results: BenchResult[] = [];
+    for (let target of options.targets) {
+        let template = adaptPrompt({ prefix: '', suffix: '', format: target.format }).prompt;
+        let promptBudget = options.contextWindow - options.maxTokens - countTokens(template);
+        let errors = 0;
+        let exact = 0;
+        let similarity = 0;
+        let valid = 0;
+        let parsed = 0;
+        let latencies: number[] = [];
+        for (let i = 0; i < options.samples.length; i++) {
+            let sample = options.samples[i];
+            let prompt = buildPrompt({
+                prefix: sample.prefix,
+                suffix: sample.suffix,
+                path: sample.path,
+                language: sample.language,
+                snippets: '',
+                promptBudget,
+                prefixRatio: options.prefixRatio,
+                redact: false
+            });
+            let started = Date.now();
+            let completion: string;
+            try {
+                completion = await autocomplete({
+                    backend: options.backend,
+                    model: target.model,
+                    format: target.format,
+                    filename: sample.path,
+                    language: sample.language,
+                    prefix: prompt.prefix,
+                    suffix: prompt.suffix,
+                    maxLines: options.maxLines,
+                    maxTokens: options.maxTokens,
+                    temperature: options.temperature,
+                    contextWindow: options.contextWindow,
+                    seed: 0
+                });
+            } catch (e) {
+                errors++;
+                onProgress?.(target, i + 1);
+                continue;
+            }
+            latencies.push(Date.now() - started);
+
+            // Scores
+            if (exactMatch(completion, sample.expected)) {
+                exact++;
+            }
+            similarity += editSimilarity(completion, sample.expected);
+            let parser = await loadParser(sample.language);
+            let syntax = parser ? syntaxValid(parser, sample.prefix, completion, sample.suffix, sample.expected) : null;
+            if (syntax !== null) {
+                parsed++;
+                valid += syntax ? 1 : 0;
+            }
+            onProgress?.(target, i + 1);
+        }
+        let completed = options.samples.length - errors;
+        results.push({
+            model: target.model,
+            format: target.formatName,
+            samples: options.samples.length,
+            errors,
+            exactMatch: completed > 0 ? exact / completed : 0,
+            editSimilarity: completed > 0 ? similarity / completed : 0,
+            syntaxValid: parsed > 0 ? valid / parsed : null,
+            latency: { p50: percentile(latencies, 50), p90: percentile(latencies, 90), p99: percentile(latencies, 99) }
+        });
+    }
+    return results;
+}
+
+export function formatResults(results: BenchResult[]): string {
+    let rows = [['Model', 'Format', 'Samples', 'Errors', 'Exact', 'Similarity', 'Syntax', 'p50 ms', 'p90 ms', 'p99 ms']];
+    let percent = (v: number) => (v * 100).toFixed(1) + '%';
+    for (let r of results) {
+        rows.push([
+            r.model,
+            r.format,
+            String(r.samples),
+            String(r.errors),
+            percent(r.exactMatch),
+            r.editSimilarity.toFixed(3),
+            r.syntaxValid !== null ? percent(r.syntaxValid) : '-',
+            String(r.latency.p50),
+            String(r.latency.p90),
+            String(r.latency.p99)
+        ]);
+    }
+    let widths = rows[0].map((_, i) => Math.max(...rows.map((row) => row[i].length)));
+    return rows.map((row) => row.map((cell, i) => cell.padEnd(widths[i])).join('  ').trimEnd()).join('\n');
+}
@@ -0,0 +1,126 @@
+import fs from 'fs/promises';
+import { parseArgs } from 'util';
+import { BackendType, createBackend, defaultEndpoints } from '../backends';
+import { ModelFormat, PromptFormat, detectModelFormat, templates } from '../prompts/processors/models';
+import { BenchTarget, formatResults, runBenchmark } from './benchmark';
+import { loadCorpus, maskSpans } from './corpus';
+import { MockOllama } from '../testing/ollamaServer';
+import { Recording, RecordingBackend } from './replay';
+
+const usage = `Usage: node out/bench/cli.js --dir <corpus> --model <name>[@format] [options]
+
+Options:
+  --dir <path>             Directory with source files to mask
+  --model <name[@format]>  Model to benchmark, format is detected from the name when omitted (repeatable)
+  --backend <type>         ollama, openai, llamacpp or tgi (default: ollama)
+  --endpoint <url>         Inference server (default: backend default)
+  --bearer-token <token>   Bearer token of the server
+  --samples <n>            Number of masked spans (default: 50)
+  --seed <n>               Seed of span selection (default: 1)
+  --context-window <n>     Context window in tokens (default: 2048)
+  --max-tokens <n>         Maximum tokens to generate (default: 256)
+  --max-lines <n>          Maximum lines to generate (default: 16)
+  --prefix-ratio <n>       Share of the prompt budget for the text before the cursor (default: 0.75)
+  --temperature <n>        Temperature (default: 0.2)
+  --replay <file>          Replay recorded responses with a local Ollama stand-in instead of the endpoint
+  --record <file>          Record responses of the endpoint into a file for --replay
+  --json                   Print results as JSON`;
+
+function parseTarget(value: string): BenchTarget {
+    let at = value.lastIndexOf('@');
+    if (at < 0) {
+        let format = detectModelFormat(value);
+        return { model: value, format, formatName: format };
+    }
+    let model = value.slice(0, at);
+    let format = value.slice(at + 1);
+    if (!templates[format as ModelFormat]) {
+        throw Error(`Unknown format ${format}, expected one of ${Object.keys(templates).join(', ')}`);
+    }
+    return { model, format: format as PromptFormat, formatName: format };
+}
+
+function parseNumber(value: string | undefined, fallback: number): number {
+    if (value === undefined) {
+        return fallback;
+    }
+    let res = Number(value);
+    if (!Number.isFinite(res)) {
+        throw Error(`Invalid number ${value}`);
+    }
+    return res;
+}
+
+async function main() {
+    let { values } = parseArgs({
+        options: {
+            'dir': { type: 'string' },
+            'model': { type: 'string', multiple: true },
+            'backend': { type: 'string', default: 'ollama' },
+            'endpoint': { type: 'string' },
+            'bearer-token': { type: 'string', default: '' },
+            'samples': { type: 'string' },
+            'seed': { type: 'string' },
+            'context-window': { type: 'string' },
+            'max-tokens': { type: 'string' },
+            'max-lines': { type: 'string' },
+            'prefix-ratio': { type: 'string' },
+            'temperature': { type: 'string' },
+            'replay': { type: 'string' },
+            'record': { type: 'string' },
+            'json': { type: 'boolean', default: false },
+            'help': { type: 'boolean', default: false }
+        }
+    });
+    if (values.help || !values.dir || !values.model || values.model.length === 0) {
+        console.log(usage);
+        process.exitCode = values.help ? 0 : 1;
+        return;
+    }
+    let backendType = values.backend as BackendType;
+    if (!defaultEndpoints[backendType]) {
+        throw Error(`Unknown backend ${values.backend}`);
+    }
+    let targets = values.model.map(parseTarget);
+
+    // Samples
+    let files = await loadCorpus(values.dir);
+    let samples = maskSpans(files, parseNumber(values.samples, 50), parseNumber(values.seed, 1));
+    if (samples.length === 0) {
+        throw Error(`No source files in ${values.dir}`);
+    }
+    console.error(`Masked ${samples.length} spans in ${files.length} files.`);
+
+    // Backend
+    let replay = values.replay ? await new MockOllama({ recording: JSON.parse(await fs.readFile(values.replay, 'utf8')) as Recording }).start() : null;
+    let endpoint = replay ? replay.endpoint : (values.endpoint ?? defaultEndpoints[backendType]).replace(/\/+$/, '');
+    let backend = createBackend({ type: replay ? 'ollama' : backendType, endpoint, bearerToken: values['bearer-token']! });
+    let recorder = values.record ? new RecordingBackend(backend) : null;
+    try {
+        let results = await runBenchmark({
+            backend: recorder ?? backend,
+            targets,
+            samples,
+            contextWindow: parseNumber(values['context-window'], 2048),
+            maxTokens: parseNumber(values['max-tokens'], 256),
+            maxLines: parseNumber(values['max-lines'], 16),
+            prefixRatio: parseNumber(values['prefix-ratio'], 0.75),
+            temperature: parseNumber(values.temperature, 0.2)
+        }, (target, done) => {
+            process.stderr.write(`\r${target.model} (${target.formatName}): ${done}/${samples.length}`);
+        });
+        process.stderr.write('\n');
+        console.log(values.json ? JSON.stringify(results, null, 2) : formatResults(results));
+        if (recorder) {
+            await fs.writeFile(values.record!, JSON.stringify(recorder.recording, null, 2) + '\n');
+            console.error(`Recorded ${Object.keys(recorder.recording.responses).length} responses to ${values.record}.`);
+        }
+    } finally {
+        await replay?.close();
+    }
+}
+
+main().catch((e) => {
+    console.error((e as Error).message);
+    process.exitCode = 1;
+});
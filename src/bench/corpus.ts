@@ -0,0 +1,109 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { detectLanguage } from '../prompts/processors/detectLanguage';
+import { Language } from '../prompts/processors/languages';
+
+export type SourceFile = {
+    path: string,
+    language: Language,
+    text: string
+};
+
+// Masked span of a file, model should fill it in
+export type Sample = {
+    path: string,
+    language: Language,
+    prefix: string,
+    suffix: string,
+    expected: string
+};
+
+const maxFileSize = 100 * 1024;
+const skipped = new Set(['node_modules', 'out', 'dist', 'build', 'target', 'vendor', '__pycache__']);
+
+// Source files of known languages, paths are relative to the directory
+export async function loadCorpus(dir: string): Promise<SourceFile[]> {
+    let res: SourceFile[] = [];
+    let visit = async (current: string) => {
+        let entries = await fs.readdir(current, { withFileTypes: true });
+        entries.sort((a, b) => a.name.localeCompare(b.name));
+        for (let entry of entries) {
+            let full = path.join(current, entry.name);
+            if (entry.isDirectory()) {
+                if (!entry.name.startsWith('.') && !skipped.has(entry.name)) {
+                    await visit(full);
+                }
+                continue;
+            }
+            let language = entry.isFile() ? detectLanguage(entry.name, null) : null;
+            if (!language || (await fs.stat(full)).size > maxFileSize) {
+                continue;
+            }
+            res.push({ path: path.relative(dir, full).split(path.sep).join('/'), language, text: await fs.readFile(full, 'utf8') });
+        }
+    };
+    await visit(dir);
+    return res;
+}
+
+// Deterministic random numbers in [0, 1), so the same seed gives the same samples
+export function random(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+//
+// Mask random spans: either the rest of a line from a word boundary or one to three whole lines.
+// Cursor is placed after indentation of the first masked line, as it would be when typing.
+//
+
+export function maskSpans(files: SourceFile[], count: number, seed: number): Sample[] {
+    let candidates = files.map((file) => {
+        let lines = file.text.split('\n');
+        return { file, lines, nonEmpty: lines.map((l, i) => i).filter((i) => lines[i].trim().length > 0) };
+    }).filter((c) => c.nonEmpty.length >= 3);
+    if (candidates.length === 0) {
+        return [];
+    }
+    let rnd = random(seed);
+    let pick = (n: number) => Math.floor(rnd() * n);
+    let res: Sample[] = [];
+    for (let i = 0; i < count; i++) {
+        let { file, lines, nonEmpty } = candidates[pick(candidates.length)];
+        let line = nonEmpty[pick(nonEmpty.length)];
+        let indent = lines[line].match(/^\s*/)![0].length;
+        let start = indent;
+        let end = line + 1;
+        if (rnd() < 0.5) {
+
+            // Rest of the line, from a word boundary
+            let content = lines[line];
+            let boundaries: number[] = [];
+            for (let col = indent; col < content.trimEnd().length; col++) {
+                if (col === indent || !/\w/.test(content[col - 1]) || !/\w/.test(content[col])) {
+                    boundaries.push(col);
+                }
+            }
+            start = boundaries[pick(boundaries.length)];
+        } else {
+            end = Math.min(lines.length, line + 1 + pick(3));
+        }
+        let before = lines.slice(0, line).join('\n') + (line > 0 ? '\n' : '') + lines[line].slice(0, start);
+        let masked = lines.slice(line, end).join('\n').slice(start);
+        let after = lines.slice(end).join('\n');
+        res.push({
+            path: file.path,
+            language: file.language,
+            prefix: before,
+            suffix: end < lines.length ? '\n' + after : '',
+            expected: masked.split('\n').map((l) => l.trimEnd()).join('\n')
+        });
+    }
+    return res;
+}
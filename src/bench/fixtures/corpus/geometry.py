@@ -0,0 +1,28 @@
+import math
+
+
+class Point:
+    def __init__(self, x, y):
+        self.x = x
+        self.y = y
+
+    def distance(self, other):
+        dx = self.x - other.x
+        dy = self.y - other.y
+        return math.sqrt(dx * dx + dy * dy)
+
+
+def perimeter(points):
+    total = 0
+    for i in range(len(points)):
+        total += points[i].distance(points[(i + 1) % len(points)])
+    return total
+
+
+def area(points):
+    total = 0
+    for i in range(len(points)):
+        a = points[i]
+        b = points[(i + 1) % len(points)]
+        total += a.x * b.y - b.x * a.y
+    return abs(total) / 2
@@ -0,0 +1,22 @@
+package stack
+
+type Stack struct {
+	items []int
+}
+
+func (s *Stack) Push(value int) {
+	s.items = append(s.items, value)
+}
+
+func (s *Stack) Pop() (int, bool) {
+	if len(s.items) == 0 {
+		return 0, false
+	}
+	value := s.items[len(s.items)-1]
+	s.items = s.items[:len(s.items)-1]
+	return value, true
+}
+
+func (s *Stack) Len() int {
+	return len(s.items)
+}
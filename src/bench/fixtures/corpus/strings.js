@@ -0,0 +1,24 @@
+// String helpers used by the benchmark fixture
+
+function capitalize(value) {
+    if (value.length === 0) {
+        return value;
+    }
+    return value[0].toUpperCase() + value.slice(1);
+}
+
+function slugify(value) {
+    return value
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-+|-+$/g, '');
+}
+
+function truncate(value, length) {
+    if (value.length <= length) {
+        return value;
+    }
+    return value.slice(0, length - 1) + '…';
+}
+
+module.exports = { capitalize, slugify, truncate };
@@ -0,0 +1,52 @@
+import type Parser from 'web-tree-sitter';
+import { loadParser } from '../modules/treeSitter';
+import { maskSpans } from './corpus';
+import { editSimilarity, exactMatch, percentile, syntaxValid } from './metrics';
+
+describe('metrics', () => {
+    let python: Parser;
+    beforeAll(async () => {
+        python = (await loadParser('python'))!;
+    });
+
+    it('should compare completions', () => {
+        expect(exactMatch(' return a + b\n', 'return a + b')).toBe(true);
+        expect(editSimilarity('return a + b', 'return a + b')).toBe(1);
+        expect(editSimilarity('return a - b', 'return a + b')).toBeCloseTo(1 - 1 / 12);
+        expect(editSimilarity('', 'abc')).toBe(0);
+        expect(editSimilarity('', '')).toBe(1);
+    });
+
+    it('should check syntax of the completed file', () => {
+        let prefix = 'def f(a, b):\n    ';
+        expect(syntaxValid(python, prefix, 'return a + b', '\n', 'return a + b')).toBe(true);
+        expect(syntaxValid(python, prefix, 'return (a + b', '\n', 'return a + b')).toBe(false);
+        expect(syntaxValid(python, 'x = (', '1', '\n', '1')).toBeNull();
+    });
+
+    it('should compute percentiles', () => {
+        let values = [5, 1, 4, 2, 3, 6, 7, 8, 9, 10];
+        expect(percentile(values, 50)).toBe(5);
+        expect(percentile(values, 90)).toBe(9);
+        expect(percentile(values, 99)).toBe(10);
+        expect(percentile([], 50)).toBe(0);
+    });
+});
+
+describe('maskSpans', () => {
+    let files = [{ path: 'a.py', language: 'python' as const, text: 'import os\n\ndef f(a):\n    return os.path.join(a, "b")\n' }];
+
+    it('should mask spans that restore the file', () => {
+        let samples = maskSpans(files, 20, 7);
+        expect(samples.length).toBe(20);
+        for (let s of samples) {
+            expect(s.prefix + s.expected + s.suffix).toBe(files[0].text);
+            expect(s.expected.trim().length).toBeGreaterThan(0);
+        }
+    });
+
+    it('should be deterministic', () => {
+        expect(maskSpans(files, 5, 1)).toEqual(maskSpans(files, 5, 1));
+        expect(maskSpans(files, 5, 1)).not.toEqual(maskSpans(files, 5, 2));
+    });
+});
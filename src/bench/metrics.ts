@@ -0,0 +1,52 @@
+import type Parser from 'web-tree-sitter';
+
+// Long completions are compared by their beginning to keep distance computation cheap
+const maxCompared = 2000;
+
+export function exactMatch(completion: string, expected: string): boolean {
+    return completion.trim() === expected.trim();
+}
+
+// Levenshtein distance normalized by the length of the longest string, 1 means equal strings
+export function editSimilarity(completion: string, expected: string): number {
+    let a = completion.trim().slice(0, maxCompared);
+    let b = expected.trim().slice(0, maxCompared);
+    if (a.length === 0 && b.length === 0) {
+        return 1;
+    }
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    let current = new Array<number>(b.length + 1);
+    for (let i = 1; i <= a.length; i++) {
+        current[0] = i;
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+        }
+        [previous, current] = [current, previous];
+    }
+    return 1 - previous[b.length] / Math.max(a.length, b.length);
+}
+
+// Whether completion keeps the file parseable, null when file had syntax errors already
+export function syntaxValid(parser: Parser, prefix: string, completion: string, suffix: string, expected: string): boolean | null {
+    let hasError = (src: string) => {
+        let tree = parser.parse(src);
+        try {
+            return tree.rootNode.hasError();
+        } finally {
+            tree.delete();
+        }
+    };
+    if (hasError(prefix + expected + suffix)) {
+        return null;
+    }
+    return !hasError(prefix + completion + suffix);
+}
+
+// Nearest-rank percentile
+export function percentile(values: number[], p: number): number {
+    if (values.length === 0) {
+        return 0;
+    }
+    let sorted = [...values].sort((a, b) => a - b);
+    return sorted[Math.max(0, Math.ceil(p / 100 * sorted.length) - 1)];
+}
@@ -0,0 +1,46 @@
+import crypto from 'crypto';
+import { Backend, BackendType, CompletionRequest } from '../backends';
+
+// Generated text by model and prompt
+export type Recording = {
+    version: 1,
+    responses: { [key: string]: { model: string, response: string } }
+};
+
+export function recordingKey(model: string, prompt: string): string {
+    return crypto.createHash('sha256').update(model + '\n' + prompt).digest('hex');
+}
+
+// Keeps text streamed by the wrapped backend, generation stopped early is recorded up to where it stopped
+export class RecordingBackend implements Backend {
+    readonly type: BackendType;
+    readonly endpoint: string;
+    readonly recording: Recording = { version: 1, responses: {} };
+    private backend: Backend;
+
+    constructor(backend: Backend) {
+        this.backend = backend;
+        this.type = backend.type;
+        this.endpoint = backend.endpoint;
+    }
+
+    listModels() {
+        return this.backend.listModels();
+    }
+
+    checkModel(model: string) {
+        return this.backend.checkModel(model);
+    }
+
+    async *generate(request: CompletionRequest) {
+        let response = '';
+        try {
+            for await (let tokens of this.backend.generate(request)) {
+                response += tokens;
+                yield tokens;
+            }
+        } finally {
+            this.recording.responses[recordingKey(request.model, request.prompt)] = { model: request.model, response };
+        }
+    }
+}
@@ -0,0 +1,250 @@
+import vscode from 'vscode';
+import crypto from 'crypto';
+import { config } from '../config';
+import { EndpointPool } from '../backends';
+import { connectOllama } from '../models/connectOllama';
+import { info, warn } from '../modules/log';
+import { ollamaChat } from '../modules/ollamaChat';
+import { isAbortError } from '../modules/scheduler';
+import { isDenylisted } from '../prompts/ignoreFiles';
+import { redactSecrets } from '../prompts/processors/secrets';
+import { ChatContext, ChatEntry, chatMessages, clipAround, parseReply, ReplySegment } from './conversation';
+
+export const chatViewId = 'llama.chat';
+const historyKey = 'llama.chat.history';
+const maxEntries = 100;
+
+// Messages from webview
+type ViewRequest =
+    | { type: 'ready' }
+    | { type: 'ask', text: string }
+    | { type: 'stop' }
+    | { type: 'insert', code: string }
+    | { type: 'copy', code: string };
+
+// Entries are rendered by webview as is, code blocks are found here
+type ViewMessage = {
+    role: 'user' | 'assistant',
+    context?: string,
+    segments: ReplySegment[]
+};
+
+// Messages to webview
+type ViewUpdate =
+    | { type: 'messages', messages: ViewMessage[] }
+    | { type: 'update', index: number, message: ViewMessage }
+    | { type: 'busy', busy: boolean }
+    | { type: 'error', message: string };
+
+//
+// Chat side panel. Conversation is sent to chat model through Ollama /api/chat of the endpoint pool with the selection or current file
+// attached to each question and is kept in workspace state.
+//
+
+export class ChatViewProvider implements vscode.WebviewViewProvider, vscode.Disposable {
+    private context: vscode.ExtensionContext;
+    private view: vscode.WebviewView | null = null;
+    private editor: vscode.TextEditor | undefined;
+    private entries: ChatEntry[];
+    private controller: AbortController | null = null;
+    private pool: EndpointPool;
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(context: vscode.ExtensionContext, pool: EndpointPool) {
+        this.context = context;
+        this.pool = pool;
+        this.entries = context.workspaceState.get<ChatEntry[]>(historyKey, []);
+
+        // Webview takes focus, so remember the last editor for context and inserts
+        this.editor = vscode.window.activeTextEditor;
+        this.disposables.push(vscode.window.onDidChangeActiveTextEditor((editor) => {
+            if (editor && editor.document.uri.scheme !== 'output') {
+                this.editor = editor;
+            }
+        }));
+    }
+
+    resolveWebviewView(view: vscode.WebviewView) {
+        let media = vscode.Uri.joinPath(this.context.extensionUri, 'media');
+        view.webview.options = { enableScripts: true, localResourceRoots: [media] };
+        view.webview.html = this.html(view.webview, media);
+        view.webview.onDidReceiveMessage((message: ViewRequest) => this.receive(message));
+        view.onDidDispose(() => {
+            if (this.view === view) {
+                this.view = null;
+            }
+        });
+        this.view = view;
+    }
+
+    clear() {
+        this.controller?.abort();
+        this.entries = [];
+        this.save();
+        this.post({ type: 'messages', messages: [] });
+    }
+
+    dispose() {
+        this.controller?.abort();
+        for (let d of this.disposables) {
+            d.dispose();
+        }
+    }
+
+    private async receive(message: ViewRequest) {
+        switch (message.type) {
+            case 'ready':
+                this.post({ type: 'messages', messages: this.entries.map(toViewMessage) });
+                this.post({ type: 'busy', busy: this.controller !== null });
+                break;
+            case 'ask':
+                await this.ask(message.text);
+                break;
+            case 'stop':
+                this.controller?.abort();
+                break;
+            case 'insert':
+                await this.insert(message.code);
+                break;
+            case 'copy':
+                await vscode.env.clipboard.writeText(message.code);
+                break;
+        }
+    }
+
+    private async ask(question: string) {
+        if (this.controller || question.trim().length === 0) {
+            return;
+        }
+        let chatConfig = config.chat;
+        let controller = new AbortController();
+        this.controller = controller;
+        this.post({ type: 'busy', busy: true });
+        try {
+
+            // Find endpoint with the model
+            const endpoint = await connectOllama(this.pool, 'Chat', chatConfig.model, (message) => this.post({ type: 'error', message }));
+            if (!endpoint) {
+                return;
+            }
+            if (controller.signal.aborted) { // Cleared while waiting for model
+                return;
+            }
+
+            // Question
+            this.entries.push({ role: 'user', content: question, context: this.activeContext(chatConfig.contextChars) });
+            let messages = chatMessages(this.entries, chatConfig.historyChars);
+            this.post({ type: 'update', index: this.entries.length - 1, message: toViewMessage(this.entries[this.entries.length - 1]) });
+
+            // Stream reply
+            info(`Running chat with ${chatConfig.model} on ${endpoint.name}...`);
+            let reply: ChatEntry = { role: 'assistant', content: '' };
+            this.entries.push(reply);
+            let index = this.entries.length - 1;
+            try {
+                for await (let chunk of ollamaChat(endpoint.endpoint, { model: chatConfig.model, messages, temperature: chatConfig.temperature }, endpoint.bearerToken, controller.signal)) {
+                    reply.content += chunk;
+                    if (this.entries[index] === reply) { // Not cleared
+                        this.post({ type: 'update', index, message: toViewMessage(reply) });
+                    }
+                }
+                info('Chat reply completed.');
+            } catch (e) {
+                if (!isAbortError(e)) {
+                    this.pool.failure(endpoint);
+                    warn('Error during chat:', e);
+                    this.post({ type: 'error', message: `Unable to get reply: ${(e as Error).message}` });
+                }
+            }
+
+            // Partial reply is kept, empty one is removed
+            if (reply.content.length === 0 && this.entries[this.entries.length - 1] === reply) {
+                this.entries.pop();
+                this.post({ type: 'messages', messages: this.entries.map(toViewMessage) });
+            }
+            this.save();
+        } finally {
+            if (this.controller === controller) {
+                this.controller = null;
+            }
+            this.post({ type: 'busy', busy: this.controller !== null });
+        }
+    }
+
+    // Selection or the part of the file around the cursor
+    private activeContext(maxChars: number): ChatContext | undefined {
+        let editor = this.editor;
+        if (!editor || editor.document.isClosed || isDenylisted(editor.document.uri)) {
+            return undefined;
+        }
+        let document = editor.document;
+        let label = vscode.workspace.asRelativePath(document.uri);
+        let text: string;
+        if (!editor.selection.isEmpty) {
+            label += `:${editor.selection.start.line + 1}-${editor.selection.end.line + 1}`;
+            text = document.getText(editor.selection).slice(0, maxChars);
+        } else {
+            text = clipAround(document.getText(), document.offsetAt(editor.selection.active), maxChars);
+        }
+        if (text.trim().length === 0) {
+            return undefined;
+        }
+        if (config.privacy.redactSecrets) {
+            text = redactSecrets(text).text;
+        }
+        return { label, language: document.languageId, text };
+    }
+
+    private async insert(code: string) {
+        if (!this.editor || this.editor.document.isClosed) {
+            vscode.window.showWarningMessage('Llama Coder: open a file to insert code into.');
+            return;
+        }
+        let editor = await vscode.window.showTextDocument(this.editor.document, this.editor.viewColumn);
+        await editor.edit((builder) => {
+            for (let selection of editor.selections) {
+                builder.replace(selection, code);
+            }
+        });
+    }
+
+    private save() {
+        this.context.workspaceState.update(historyKey, this.entries.slice(-maxEntries));
+    }
+
+    private post(message: ViewUpdate) {
+        this.view?.webview.postMessage(message);
+    }
+
+    private html(webview: vscode.Webview, media: vscode.Uri) {
+        let nonce = crypto.randomBytes(16).toString('hex');
+        let script = webview.asWebviewUri(vscode.Uri.joinPath(media, 'chat.js'));
+        let style = webview.asWebviewUri(vscode.Uri.joinPath(media, 'chat.css'));
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource}; script-src 'nonce-${nonce}';">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <link href="${style}" rel="stylesheet">
+</head>
+<body>
+    <div id="messages"></div>
+    <div id="error" hidden></div>
+    <form id="form">
+        <textarea id="input" rows="3" placeholder="Ask about the code, selection or current file is attached"></textarea>
+        <button id="send" type="submit">Send</button>
+    </form>
+    <script nonce="${nonce}" src="${script}"></script>
+</body>
+</html>`;
+    }
+}
+
+function toViewMessage(entry: ChatEntry): ViewMessage {
+    return {
+        role: entry.role,
+        context: entry.context?.label,
+        segments: entry.role === 'user' ? [{ kind: 'text', text: entry.content }] : parseReply(entry.content)
+    };
+}
@@ -0,0 +1,71 @@
+import { chatMessages, clipAround, parseReply } from './conversation';
+
+describe('chatMessages', () => {
+    it('should attach context before the question', () => {
+        let messages = chatMessages([
+            { role: 'user', content: 'What does it do?', context: { label: 'src/a.ts:1-1', language: 'typescript', text: 'let a = 1;' } },
+            { role: 'assistant', content: 'Declares a variable.' },
+            { role: 'user', content: 'Why let?' }
+        ], 10000);
+        expect(messages[0].role).toBe('system');
+        expect(messages.slice(1)).toEqual([
+            { role: 'user', content: 'Code from src/a.ts:1-1:\n```typescript\nlet a = 1;\n```\n\nWhat does it do?' },
+            { role: 'assistant', content: 'Declares a variable.' },
+            { role: 'user', content: 'Why let?' }
+        ]);
+    });
+
+    it('should drop the oldest entries over the limit', () => {
+        let messages = chatMessages([
+            { role: 'user', content: 'a'.repeat(100) },
+            { role: 'assistant', content: 'b'.repeat(100) },
+            { role: 'user', content: 'c'.repeat(100) },
+            { role: 'assistant', content: 'd'.repeat(100) },
+            { role: 'user', content: 'e'.repeat(50) }
+        ], 260);
+        expect(messages.slice(1).map((m) => m.content[0])).toEqual(['c', 'd', 'e']);
+    });
+
+    it('should keep the last entry even if it exceeds the limit', () => {
+        let messages = chatMessages([
+            { role: 'user', content: 'a' },
+            { role: 'assistant', content: 'b' },
+            { role: 'user', content: 'c'.repeat(100) }
+        ], 10);
+        expect(messages.slice(1)).toEqual([{ role: 'user', content: 'c'.repeat(100) }]);
+    });
+});
+
+describe('parseReply', () => {
+    it('should split text and code blocks', () => {
+        expect(parseReply('Use map:\n\n```ts\nlet b = a.map((v) => v * 2);\n```\n\nIt returns new array.')).toEqual([
+            { kind: 'text', text: 'Use map:' },
+            { kind: 'code', language: 'ts', code: 'let b = a.map((v) => v * 2);' },
+            { kind: 'text', text: 'It returns new array.' }
+        ]);
+    });
+
+    it('should keep indentation and unterminated blocks', () => {
+        expect(parseReply('```python\ndef f():\n    return 1\n')).toEqual([
+            { kind: 'code', language: 'python', code: 'def f():\n    return 1\n' }
+        ]);
+        expect(parseReply('```\n```')).toEqual([{ kind: 'code', language: '', code: '' }]);
+    });
+
+    it('should keep inline backticks in text', () => {
+        expect(parseReply('Call `f()` and ```g()```')).toEqual([{ kind: 'text', text: 'Call `f()` and ```g()```' }]);
+    });
+});
+
+describe('clipAround', () => {
+    it('should keep short text', () => {
+        expect(clipAround('a\nb', 0, 10)).toBe('a\nb');
+    });
+
+    it('should keep whole lines around offset', () => {
+        let text = ['line0', 'line1', 'line2', 'line3', 'line4', 'line5'].join('\n');
+        expect(clipAround(text, text.indexOf('line3'), 14)).toBe('line2\nline3');
+        expect(clipAround(text, 0, 14)).toBe('line0\nline1');
+        expect(clipAround(text, text.length, 14)).toBe('line4\nline5');
+    });
+});
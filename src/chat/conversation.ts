@@ -0,0 +1,107 @@
+import type { ChatMessage } from '../modules/ollamaChat';
+
+export type ChatContext = {
+    label: string,
+    language: string,
+    text: string
+};
+
+export type ChatEntry = {
+    role: 'user' | 'assistant',
+    content: string,
+    context?: ChatContext
+};
+
+export type ReplySegment = { kind: 'text', text: string } | { kind: 'code', language: string, code: string };
+
+const systemPrompt = [
+    'You are a coding assistant inside of a code editor.',
+    'Answer concisely. Put code into fenced Markdown code blocks with a language name.',
+    'Code from the editor could be attached to the question, refer to it when answering.'
+].join(' ');
+
+// Attached code goes before the question, so the question is the last thing model reads
+function formatEntry(entry: ChatEntry): string {
+    if (!entry.context) {
+        return entry.content;
+    }
+    return `Code from ${entry.context.label}:\n\`\`\`${entry.context.language}\n${entry.context.text}\n\`\`\`\n\n${entry.content}`;
+}
+
+// Build chat request, the oldest entries are dropped when conversation exceeds the limit, the last one is always kept
+export function chatMessages(entries: ChatEntry[], maxChars: number): ChatMessage[] {
+    let messages: ChatMessage[] = [];
+    let size = 0;
+    for (let i = entries.length - 1; i >= 0; i--) {
+        let content = formatEntry(entries[i]);
+        if (messages.length > 0 && size + content.length > maxChars) {
+            break;
+        }
+        size += content.length;
+        messages.unshift({ role: entries[i].role, content });
+    }
+
+    // Conversation should start with user message
+    while (messages.length > 1 && messages[0].role === 'assistant') {
+        messages.shift();
+    }
+    return [{ role: 'system', content: systemPrompt }, ...messages];
+}
+
+// Split reply into text and code blocks, unterminated block is a code block that is still streamed
+export function parseReply(reply: string): ReplySegment[] {
+    let segments: ReplySegment[] = [];
+    let text: string[] = [];
+    let code: string[] | null = null;
+    let language = '';
+    let flushText = () => {
+        let value = text.join('\n').replace(/^\s*\n/, '').trimEnd();
+        if (value.length > 0) {
+            segments.push({ kind: 'text', text: value });
+        }
+        text = [];
+    };
+    for (let line of reply.split('\n')) {
+        if (code) {
+            if (/^\s*```\s*$/.test(line)) {
+                segments.push({ kind: 'code', language, code: code.join('\n') });
+                code = null;
+            } else {
+                code.push(line);
+            }
+            continue;
+        }
+        let fence = /^\s*```\s*([\w#+.-]*)\s*$/.exec(line);
+        if (fence) {
+            flushText();
+            language = fence[1];
+            code = [];
+        } else {
+            text.push(line);
+        }
+    }
+    if (code) {
+        segments.push({ kind: 'code', language, code: code.join('\n') });
+    } else {
+        flushText();
+    }
+    return segments;
+}
+
+// Cut text to the limit keeping whole lines around the offset
+export function clipAround(text: string, offset: number, maxChars: number): string {
+    if (text.length <= maxChars) {
+        return text;
+    }
+    let start = Math.min(Math.max(0, offset - Math.floor(maxChars / 2)), text.length - maxChars);
+    let end = start + maxChars;
+    if (start > 0) {
+        let newline = text.indexOf('\n', start);
+        start = newline >= 0 && newline < end ? newline + 1 : start;
+    }
+    if (end < text.length) {
+        let newline = text.lastIndexOf('\n', end);
+        end = newline > start ? newline : end;
+    }
+    return text.slice(start, end);
+}
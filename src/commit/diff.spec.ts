@@ -0,0 +1,56 @@
+import { countTokens } from '../prompts/processors/tokens';
+import { commitMessages, extractMessage, splitDiff, trimDiff } from './diff';
+
+function fileDiff(path: string, lines: number) {
+    let res = `diff --git a/${path} b/${path}\nindex 1111111..2222222 100644\n--- a/${path}\n+++ b/${path}\n@@ -1,${lines} +1,${lines} @@\n`;
+    for (let i = 0; i < lines; i++) {
+        res += `+line ${i}\n`;
+    }
+    return res;
+}
+
+describe('splitDiff', () => {
+    it('should split diff by files', () => {
+        let files = splitDiff(fileDiff('src/a.ts', 1) + fileDiff('docs/my file.md', 2));
+        expect(files.map((f) => f.path)).toEqual(['src/a.ts', 'docs/my file.md']);
+        expect(files[0].text).toBe(fileDiff('src/a.ts', 1));
+        expect(splitDiff('')).toEqual([]);
+    });
+});
+
+describe('trimDiff', () => {
+    it('should keep diff that fits', () => {
+        let diff = fileDiff('a.ts', 3) + fileDiff('b.ts', 3);
+        expect(trimDiff(splitDiff(diff), 10000)).toBe(diff);
+    });
+
+    it('should cut large files and keep small ones', () => {
+        let small = fileDiff('small.ts', 2);
+        let trimmed = trimDiff(splitDiff(small + fileDiff('large.ts', 200)), 300);
+        expect(trimmed.startsWith(small)).toBe(true);
+        expect(trimmed).toContain('diff --git a/large.ts b/large.ts\n');
+        expect(trimmed).toMatch(/\.\.\. \(\d+ more lines\)\n$/);
+        expect(countTokens(trimmed)).toBeLessThanOrEqual(300 + countTokens('... (200 more lines)\n'));
+    });
+
+    it('should omit lock files', () => {
+        let trimmed = trimDiff(splitDiff(fileDiff('yarn.lock', 5)), 10000);
+        expect(trimmed).toBe('diff --git a/yarn.lock b/yarn.lock\nindex 1111111..2222222 100644\n--- a/yarn.lock\n+++ b/yarn.lock\n... (changes omitted)\n');
+    });
+});
+
+describe('commitMessages', () => {
+    it('should fill template', () => {
+        let messages = commitMessages('Files:\n{files}\n\n{diff}', 'DIFF $&', ['a.ts', 'b.ts']);
+        expect(messages[1].content).toBe('Files:\na.ts\nb.ts\n\nDIFF $&');
+        expect(commitMessages('Write message.', 'DIFF', [])[1].content).toBe('Write message.\n\nDIFF');
+    });
+});
+
+describe('extractMessage', () => {
+    it('should strip fences, labels and quotes', () => {
+        expect(extractMessage('```\nfeat: add chat\n\nBody.\n```')).toBe('feat: add chat\n\nBody.');
+        expect(extractMessage('Commit message: "fix(api): handle errors"')).toBe('fix(api): handle errors');
+        expect(extractMessage('  docs: update readme\n')).toBe('docs: update readme');
+    });
+});
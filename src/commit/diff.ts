@@ -0,0 +1,90 @@
+import { ChatMessage } from '../modules/ollamaChat';
+import { countTokens } from '../prompts/processors/tokens';
+
+export type DiffFile = {
+    path: string,
+    text: string
+};
+
+const systemPrompt = 'You are an expert programmer that writes git commit messages. Reply only with the commit message, without explanations or code blocks.';
+
+// Lock files and generated code are large and say nothing about the change
+const noise = [/(^|\/)(package-lock\.json|yarn\.lock|pnpm-lock\.yaml|Cargo\.lock|poetry\.lock|go\.sum|composer\.lock|Gemfile\.lock)$/, /\.min\.(js|css)$/, /\.map$/];
+
+// Split unified diff into per file sections
+export function splitDiff(diff: string): DiffFile[] {
+    let res: DiffFile[] = [];
+    for (let section of diff.split(/^(?=diff --git )/m)) {
+        if (!section.startsWith('diff --git ')) {
+            continue;
+        }
+        let header = section.slice(0, section.indexOf('\n') >= 0 ? section.indexOf('\n') : section.length);
+        let path = header.match(/ b\/(.*)$/)?.[1] ?? header.slice('diff --git '.length);
+        res.push({ path, text: section.endsWith('\n') ? section : section + '\n' });
+    }
+    return res;
+}
+
+// Keep lines up to the first hunk: file names, mode changes, renames
+function header(text: string) {
+    let hunk = text.search(/^@@/m);
+    return hunk < 0 ? text : text.slice(0, hunk);
+}
+
+// Keep whole lines that fit into the budget, header is always kept
+function cut(text: string, maxTokens: number) {
+    if (countTokens(text) <= maxTokens) {
+        return text;
+    }
+    let kept = header(text);
+    let used = countTokens(kept);
+    for (let line of text.slice(kept.length).split(/(?<=\n)/)) {
+        used += countTokens(line);
+        if (used > maxTokens) {
+            break;
+        }
+        kept += line;
+    }
+    let omitted = text.slice(kept.length).split('\n').length - 1;
+    return kept + `... (${omitted} more lines)\n`;
+}
+
+// Fit diff into the token budget, small files are kept whole and large ones share what is left
+export function trimDiff(files: DiffFile[], maxTokens: number): string {
+    let texts = files.map((f) => noise.some((r) => r.test(f.path)) ? header(f.text) + '... (changes omitted)\n' : f.text);
+    let tokens = texts.map((t) => countTokens(t));
+    let order = texts.map((_, i) => i).sort((a, b) => tokens[a] - tokens[b]);
+    let remaining = maxTokens;
+    for (let i = 0; i < order.length; i++) {
+        let index = order[i];
+        let share = Math.floor(remaining / (order.length - i));
+        texts[index] = cut(texts[index], Math.max(0, share));
+        remaining -= countTokens(texts[index]);
+    }
+    return texts.join('');
+}
+
+// Template placeholders: {diff} and {files}
+export function commitMessages(template: string, diff: string, files: string[]): ChatMessage[] {
+    let content = template.includes('{diff}') ? template : template + '\n\n{diff}';
+    content = content.replace(/\{files\}/g, () => files.join('\n')).replace(/\{diff\}/g, () => diff);
+    return [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content }
+    ];
+}
+
+// Models sometimes wrap the message into a code block or quotes
+export function extractMessage(reply: string): string {
+    let message = reply.trim();
+    let fenced = message.match(/^```[^\n]*\n([\s\S]*?)(\n```|$)/);
+    if (fenced) {
+        message = fenced[1].trim();
+    }
+    message = message.replace(/^(commit message|message):\s*/i, '');
+    let quoted = message.match(/^(["'`])([\s\S]*)\1$/);
+    if (quoted) {
+        message = quoted[2].trim();
+    }
+    return message;
+}
@@ -0,0 +1,124 @@
+import vscode from 'vscode';
+import path from 'path';
+import { config } from '../config';
+import { EndpointPool, createBackend, resolveContextWindow } from '../backends';
+import { connectOllama, ollamaEndpoints } from '../models/connectOllama';
+import { info, warn } from '../modules/log';
+import { ollamaChat } from '../modules/ollamaChat';
+import { isAbortError } from '../modules/scheduler';
+import { isDenylisted } from '../prompts/ignoreFiles';
+import { countTokens } from '../prompts/processors/tokens';
+import { redactSecrets } from '../prompts/processors/secrets';
+import { commitMessages, extractMessage, splitDiff, trimDiff } from './diff';
+import { GitExtension, Repository } from './git';
+
+// Commit messages are short, the rest of the context window is for the diff
+const replyTokens = 512;
+
+let running = false;
+
+//
+// Writes commit message for staged changes of a repository from the built-in Git extension.
+// Message is streamed into the commit input box of the Source Control view.
+//
+
+export async function generateCommitMessage(pool: EndpointPool, sourceControl?: { rootUri?: vscode.Uri }): Promise<void> {
+    if (running) {
+        return;
+    }
+    if (ollamaEndpoints().length === 0) {
+        vscode.window.showErrorMessage('Llama Coder: Generate Commit Message requires an Ollama endpoint.');
+        return;
+    }
+    let commitConfig = config.commit;
+
+    // Resolve repository
+    let repository = await pickRepository(sourceControl?.rootUri);
+    if (!repository) {
+        return;
+    }
+    let files = splitDiff(await repository.diff(true));
+    if (files.length === 0) {
+        vscode.window.showInformationMessage('Llama Coder: there are no staged changes.');
+        return;
+    }
+
+    // Find endpoint with the model
+    const endpoint = await connectOllama(pool, 'Generate Commit Message', commitConfig.model);
+    if (!endpoint) {
+        return;
+    }
+
+    // Diff gets what is left in the context window after prompt and reply, sensitive files are mentioned by name only
+    let backend = createBackend({ type: 'ollama', endpoint: endpoint.endpoint, bearerToken: endpoint.bearerToken });
+    let contextWindow = await resolveContextWindow(backend, commitConfig.model, commitConfig.contextWindow);
+    let paths = files.map((f) => f.path);
+    let budget = contextWindow - replyTokens - commitMessages(commitConfig.template, '', paths).reduce((sum, m) => sum + countTokens(m.content), 0);
+    let root = repository.rootUri;
+    let diff = trimDiff(files.map((f) => isDenylisted(vscode.Uri.joinPath(root, f.path)) ? { path: f.path, text: `diff --git a/${f.path} b/${f.path}\n... (sensitive file, changes omitted)\n` } : f), budget);
+    if (config.privacy.redactSecrets) {
+        diff = redactSecrets(diff).text;
+    }
+
+    // Generate, progress in the Source Control view can't be canceled so notification is used
+    info(`Running commit message generation with ${commitConfig.model} on ${endpoint.name}...`);
+    let messages = commitMessages(commitConfig.template, diff, paths);
+    running = true;
+    try {
+        await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: 'Llama Coder: writing commit message',
+            cancellable: true
+        }, async (_, token) => {
+            let controller = new AbortController();
+            let subscription = token.onCancellationRequested(() => controller.abort());
+            try {
+                let reply = '';
+                for await (let chunk of ollamaChat(endpoint.endpoint, { model: commitConfig.model, messages, temperature: commitConfig.temperature, contextWindow }, endpoint.bearerToken, controller.signal)) {
+                    reply += chunk;
+                    repository!.inputBox.value = extractMessage(reply);
+                }
+            } finally {
+                subscription.dispose();
+            }
+        });
+        info('Commit message generated.');
+    } catch (e) {
+        if (!isAbortError(e)) {
+            pool.failure(endpoint);
+            warn('Error during commit message generation:', e);
+            vscode.window.showErrorMessage(`Llama Coder: unable to write commit message: ${(e as Error).message}`);
+        }
+    } finally {
+        running = false;
+    }
+}
+
+async function pickRepository(rootUri: vscode.Uri | undefined): Promise<Repository | null> {
+    let extension = vscode.extensions.getExtension<GitExtension>('vscode.git');
+    let git = extension ? (extension.isActive ? extension.exports : await extension.activate()) : null;
+    if (!git || !git.enabled) {
+        vscode.window.showErrorMessage('Llama Coder: Git extension is not available.');
+        return null;
+    }
+    let api = git.getAPI(1);
+    if (rootUri) {
+        return api.getRepository(rootUri);
+    }
+    if (api.repositories.length === 0) {
+        vscode.window.showInformationMessage('Llama Coder: no Git repository is open.');
+        return null;
+    }
+    if (api.repositories.length === 1) {
+        return api.repositories[0];
+    }
+
+    // Repository of the current file or ask user
+    let editor = vscode.window.activeTextEditor;
+    let current = editor ? api.getRepository(editor.document.uri) : null;
+    if (current) {
+        return current;
+    }
+    let picked = await vscode.window.showQuickPick(api.repositories.map((r) => ({ label: path.basename(r.rootUri.fsPath), description: r.rootUri.fsPath, repository: r })), { placeHolder: 'Select repository' });
+    return picked ? picked.repository : null;
+}
@@ -0,0 +1,21 @@
+import type vscode from 'vscode';
+
+//
+// Subset of the API of the built-in Git extension (extensions/git/src/api/git.d.ts in VS Code repository)
+//
+
+export interface GitExtension {
+    readonly enabled: boolean;
+    getAPI(version: 1): GitAPI;
+}
+
+export interface GitAPI {
+    readonly repositories: Repository[];
+    getRepository(uri: vscode.Uri): Repository | null;
+}
+
+export interface Repository {
+    readonly rootUri: vscode.Uri;
+    readonly inputBox: { value: string };
+    diff(cached?: boolean): Promise<string>;
+}
@@ -1,55 +1,163 @@
 import vscode from 'vscode';
-import { ModelFormat } from './prompts/processors/models';
+import { ModelFormat, PromptFormat, PromptTemplate, detectModelFormat, validateTemplate } from './prompts/processors/models';
+import { LanguageDescriptor } from './prompts/processors/languages';
+import { BackendType, ModelOptions, Routing, defaultEndpoints, parseKeepAlive } from './backends';
+
+export type Endpoint = {
+    name: string,
+    backend: BackendType,
+    endpoint: string,
+    bearerToken: string,
+    modelName: string,
+    modelFormat: PromptFormat
+};
+
+type EndpointSetting = {
+    name?: string,
+    backend?: BackendType,
+    endpoint?: string,
+    bearerToken?: string,
+    model?: string,
+    format?: ModelFormat
+};
 
 class Config {
 
     // Inference
     get inference() {
-        let config = this.#config;
+        return this.#inference(this.#config);
+    }
 
-        // Load endpoint
-        let endpoint = (config.get('endpoint') as string).trim();
-        if (endpoint.endsWith('/')) {
-            endpoint = endpoint.slice(0, endpoint.length - 1).trim();
-        }
-        if (endpoint === '') {
-            endpoint = 'http://127.0.0.1:11434';
+    // Inference settings with language specific overrides, e.g. "[python]": { "inference.maxTokens": 512 }
+    inferenceFor(document: vscode.TextDocument) {
+        return this.#inference(vscode.workspace.getConfiguration('inference', document));
+    }
+
+    #inference(config: vscode.WorkspaceConfiguration) {
+
+        // Load backend
+        let backend = config.get('backend') as BackendType;
+        if (!defaultEndpoints[backend]) {
+            backend = 'ollama';
         }
+
+        // Load endpoint
+        let endpoint = normalizeEndpoint(config.get('endpoint') as string, backend);
         let bearerToken = config.get('bearerToken') as string;
 
         // Load general paremeters
         let maxLines = config.get('maxLines') as number;
         let maxTokens = config.get('maxTokens') as number;
+        let blockMaxLines = config.get('block.maxLines') as number;
+        let blockMaxTokens = config.get('block.maxTokens') as number;
         let temperature = config.get('temperature') as number;
+        let contextWindow = config.get('contextWindow') as number;
+        let prefixRatio = config.get('prefixRatio') as number;
+        let candidates = config.get('candidates') as number;
+
+        // Load sampling and server options, per-model profiles override them
+        let topP = config.get('topP') as number | null ?? null;
+        let topK = config.get('topK') as number | null ?? null;
+        let repeatPenalty = config.get('repeatPenalty') as number | null ?? null;
+        let seed = config.get('seed') as number | null ?? null;
+        let keepAlive = parseKeepAlive(config.get('keepAlive') as string ?? '');
+        let modelOptions = config.get('modelOptions') as { [model: string]: ModelOptions } ?? {};
+        let prewarm = config.get('prewarm') as boolean;
 
         // Load model
         let modelName = config.get('model') as string;
-        let modelFormat: ModelFormat = 'codellama';
+        let modelFormat: PromptFormat;
         if (modelName === 'custom') {
             modelName = config.get('custom.model') as string;
-            modelFormat = config.get('cutom.format') as ModelFormat;
-        } else {
-            if (modelName.startsWith('deepseek-coder')) {
-                modelFormat = 'deepseek';
-            } else if (modelName.startsWith('stable-code')) {
-                modelFormat = 'stable-code';
+            let format = config.get('custom.format') as ModelFormat | 'template';
+            if (format === 'template') {
+                let template = this.#customTemplate(config);
+                modelFormat = validateTemplate(template) === null ? template : 'codellama';
+            } else {
+                modelFormat = format;
             }
+        } else {
+            modelFormat = detectModelFormat(modelName);
         }
 
+        // Load endpoints, single endpoint settings are used when list is empty
+        let endpoints: Endpoint[] = (config.get('endpoints') as EndpointSetting[] ?? []).map((e) => {
+            let endpointBackend = e.backend && defaultEndpoints[e.backend] ? e.backend : backend;
+            let url = normalizeEndpoint(e.endpoint ?? '', endpointBackend);
+            let model = e.model?.trim();
+            return {
+                name: e.name?.trim() || endpointName(url),
+                backend: endpointBackend,
+                endpoint: url,
+                bearerToken: e.bearerToken ?? bearerToken,
+                modelName: model || modelName,
+                modelFormat: model ? (e.format ?? detectModelFormat(model)) : modelFormat
+            };
+        });
+        if (endpoints.length === 0) {
+            endpoints.push({ name: endpointName(endpoint), backend, endpoint, bearerToken, modelName, modelFormat });
+        }
+        let routing = config.get('routing') as Routing;
+
         let delay = config.get('delay') as number;
 
         return {
+            backend,
             endpoint,
             bearerToken,
             maxLines,
             maxTokens,
+            blockMaxLines,
+            blockMaxTokens,
             temperature,
+            contextWindow,
+            prefixRatio,
+            candidates,
+            topP,
+            topK,
+            repeatPenalty,
+            seed,
+            keepAlive,
+            modelOptions,
+            prewarm,
             modelName,
             modelFormat,
+            endpoints,
+            routing,
             delay
         };
     }
 
+    // Error in custom prompt template, null if template is valid or not used
+    get promptTemplateError() {
+        let config = this.#config;
+        if (config.get('model') !== 'custom' || config.get('custom.format') !== 'template') {
+            return null;
+        }
+        return validateTemplate(this.#customTemplate(config));
+    }
+
+    // Enablement
+    get enablement() {
+        let config = this.#config;
+
+        let enable = config.get('enable') as { [languageId: string]: boolean };
+        let exclude = config.get('exclude') as string[];
+        let useGitignore = config.get('useGitignore') as boolean;
+        return {
+            enable,
+            exclude,
+            useGitignore,
+        };
+    }
+
+    #customTemplate(config: vscode.WorkspaceConfiguration): PromptTemplate {
+        return {
+            template: config.get('custom.template') as string,
+            stop: config.get('custom.stop') as string[]
+        };
+    }
+
     // Notebook
     get notebook() {
         let config = vscode.workspace.getConfiguration('notebook');
@@ -64,9 +172,119 @@ class Config {
         };
     }
 
+    // Prompt cache
+    get cache() {
+        let config = vscode.workspace.getConfiguration('inference.cache');
+
+        let maxEntries = config.get('maxEntries') as number;
+        let maxSize = config.get('maxSize') as number;
+        let persistent = config.get('persistent') as boolean;
+        return {
+            maxEntries,
+            maxBytes: maxSize * 1024,
+            persistent,
+        };
+    }
+
+    // Edit selection
+    get edit() {
+        let config = vscode.workspace.getConfiguration('inference.edit');
+
+        let model = config.get('model') as string;
+        let contextLines = config.get('contextLines') as number;
+        let temperature = config.get('temperature') as number;
+        return {
+            model,
+            contextLines,
+            temperature,
+        };
+    }
+
+    // Chat
+    get chat() {
+        let config = vscode.workspace.getConfiguration('inference.chat');
+
+        let model = config.get('model') as string;
+        let temperature = config.get('temperature') as number;
+        let contextChars = config.get('contextChars') as number;
+        let historyChars = config.get('historyChars') as number;
+        return {
+            model,
+            temperature,
+            contextChars,
+            historyChars,
+        };
+    }
+
+    // Commit messages
+    get commit() {
+        let config = vscode.workspace.getConfiguration('inference.commit');
+        let edit = this.edit;
+
+        let model = (config.get('model') as string) || edit.model;
+        let template = config.get('template') as string;
+        let contextWindow = config.get('contextWindow') as number;
+        return {
+            model,
+            template,
+            contextWindow,
+            temperature: edit.temperature,
+        };
+    }
+
+    // Privacy
+    get privacy() {
+        let config = vscode.workspace.getConfiguration('inference.privacy');
+
+        let redactSecrets = config.get('redactSecrets') as boolean;
+        let denylist = config.get('denylist') as string[];
+        return {
+            redactSecrets,
+            denylist,
+        };
+    }
+
+    // Cross-file context
+    get context() {
+        let config = vscode.workspace.getConfiguration('inference.context');
+
+        let enabled = config.get('enabled') as boolean;
+        let maxTokens = config.get('maxTokens') as number;
+        let snippetLines = config.get('snippetLines') as number;
+        return {
+            enabled,
+            maxTokens,
+            snippetLines,
+        };
+    }
+
+    // Custom language descriptors by language id
+    get languages() {
+        return this.#config.get('languages') as { [id: string]: Partial<LanguageDescriptor> } ?? {};
+    }
+
     get #config() {
         return vscode.workspace.getConfiguration('inference');
     };
 }
 
+function normalizeEndpoint(endpoint: string, backend: BackendType) {
+    endpoint = endpoint.trim();
+    if (endpoint.endsWith('/')) {
+        endpoint = endpoint.slice(0, endpoint.length - 1).trim();
+    }
+    if (endpoint === '') {
+        endpoint = defaultEndpoints[backend];
+    }
+    return endpoint;
+}
+
+function endpointName(endpoint: string) {
+    try {
+        return new URL(endpoint).host;
+    } catch (e) {
+        return endpoint;
+    }
+}
+
 export const config = new Config();
\ No newline at end of file
@@ -0,0 +1,117 @@
+import vscode from 'vscode';
+import { config } from '../config';
+import { EndpointPool } from '../backends';
+import { connectOllama, ollamaEndpoints } from '../models/connectOllama';
+import { info, warn } from '../modules/log';
+import { ollamaChat } from '../modules/ollamaChat';
+import { isAbortError } from '../modules/scheduler';
+import { loadParser } from '../modules/treeSitter';
+import { isDenylisted } from '../prompts/ignoreFiles';
+import { docComment } from '../prompts/processors/comment';
+import { detectLanguage } from '../prompts/processors/detectLanguage';
+import { languages } from '../prompts/processors/languages';
+import { redactSecrets } from '../prompts/processors/secrets';
+import { docMessages, extractDoc } from './prompt';
+import { findDocTarget } from './target';
+
+// Very long functions are documented by their beginning
+const maxChars = 16000;
+
+//
+// Writes documentation comment for the function at the cursor with instruct model from inference.edit.model.
+// Comment is formatted with the language convention and replaces existing one if there is any.
+//
+
+export async function generateDocComment(pool: EndpointPool): Promise<void> {
+    let editor = vscode.window.activeTextEditor;
+    if (!editor) {
+        return;
+    }
+    let document = editor.document;
+    if (isDenylisted(document.uri)) {
+        vscode.window.showWarningMessage('Llama Coder: editing of sensitive files is disabled.');
+        return;
+    }
+    if (ollamaEndpoints().length === 0) {
+        vscode.window.showErrorMessage('Llama Coder: Generate Doc Comment requires an Ollama endpoint.');
+        return;
+    }
+    let editConfig = config.edit;
+
+    // Find function
+    let language = detectLanguage(document.uri.fsPath, document.languageId, document.getText());
+    let descriptor = language ? languages[language] : null;
+    let parser = language && descriptor?.docComment ? await loadParser(language) : null;
+    if (!descriptor || !descriptor.docComment || !parser) {
+        vscode.window.showWarningMessage(`Llama Coder: doc comments are not supported for ${document.languageId}.`);
+        return;
+    }
+    let style = descriptor.docComment;
+    let source = document.getText();
+    let version = document.version;
+    let target = findDocTarget(parser, source, document.offsetAt(editor.selection.active), style);
+    if (!target) {
+        vscode.window.showInformationMessage('Llama Coder: no function at the cursor.');
+        return;
+    }
+
+    // Find endpoint with the model
+    const endpoint = await connectOllama(pool, 'Generate Doc Comment', editConfig.model);
+    if (!endpoint) {
+        return;
+    }
+
+    let code = source.slice(target.start, Math.min(target.end, target.start + maxChars));
+    if (config.privacy.redactSecrets) {
+        code = redactSecrets(code).text;
+    }
+    let messages = docMessages({
+        code,
+        filename: vscode.workspace.asRelativePath(document.uri),
+        language: document.languageId,
+        convention: style.convention
+    });
+
+    // Generate
+    info(`Running doc comment generation with ${editConfig.model} on ${endpoint.name}...`);
+    let reply = '';
+    try {
+        await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: 'Llama Coder: writing doc comment',
+            cancellable: true
+        }, async (_, token) => {
+            let controller = new AbortController();
+            let subscription = token.onCancellationRequested(() => controller.abort());
+            try {
+                for await (let chunk of ollamaChat(endpoint.endpoint, { model: editConfig.model, messages, temperature: editConfig.temperature }, endpoint.bearerToken, controller.signal)) {
+                    reply += chunk;
+                }
+            } finally {
+                subscription.dispose();
+            }
+        });
+    } catch (e) {
+        if (!isAbortError(e)) {
+            pool.failure(endpoint);
+            warn('Error during doc comment generation:', e);
+            vscode.window.showErrorMessage(`Llama Coder: unable to write doc comment: ${(e as Error).message}`);
+        }
+        return;
+    }
+    let text = extractDoc(reply, style);
+    if (text === '') {
+        vscode.window.showWarningMessage('Llama Coder: model returned empty doc comment.');
+        return;
+    }
+    info('Doc comment generated.');
+
+    // Insert
+    if (document.version !== version) {
+        vscode.window.showWarningMessage('Llama Coder: document was changed, doc comment is discarded.');
+        return;
+    }
+    let edit = new vscode.WorkspaceEdit();
+    edit.replace(document.uri, new vscode.Range(document.positionAt(target.replace.start), document.positionAt(target.replace.end)), docComment(text, descriptor, target.indent)!);
+    await vscode.workspace.applyEdit(edit);
+}
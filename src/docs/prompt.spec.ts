@@ -0,0 +1,27 @@
+import { languages } from '../prompts/processors/languages';
+import { docMessages, extractDoc } from './prompt';
+
+describe('docMessages', () => {
+    it('should ask for the language convention', () => {
+        let messages = docMessages({ code: 'fn main() {}', filename: 'src/main.rs', language: 'rust', convention: 'Rust documentation comment' });
+        expect(messages[1].content).toBe('File: src/main.rs\n\nFunction:\n```rust\nfn main() {}\n```\n\nWrite Rust documentation comment for this function.');
+    });
+});
+
+describe('extractDoc', () => {
+    it('should keep plain text', () => {
+        expect(extractDoc('Adds numbers.\n\n@param a first\n@returns sum\n', languages.typescript.docComment!)).toBe('Adds numbers.\n\n@param a first\n@returns sum');
+    });
+
+    it('should strip fences and comment markers', () => {
+        let reply = 'Here is the comment:\n```ts\n/**\n * Adds numbers.\n *\n * @param a first\n */\n```';
+        expect(extractDoc(reply, languages.typescript.docComment!)).toBe('Adds numbers.\n\n@param a first');
+        expect(extractDoc('/// Adds numbers.\n///\n/// # Arguments\n', languages.rust.docComment!)).toBe('Adds numbers.\n\n# Arguments');
+    });
+
+    it('should dedent docstrings', () => {
+        let reply = '"""Adds numbers.\n\n    Args:\n        a: first\n    """';
+        expect(extractDoc(reply, languages.python.docComment!)).toBe('Adds numbers.\n\nArgs:\n    a: first');
+        expect(extractDoc('Args:\n    a: first', languages.python.docComment!)).toBe('Args:\n    a: first');
+    });
+});
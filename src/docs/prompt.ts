@@ -0,0 +1,55 @@
+import { ChatMessage } from '../modules/ollamaChat';
+import { DocCommentStyle } from '../prompts/processors/languages';
+
+const systemPrompt = 'You are an expert programmer that documents code. Write a documentation comment for the given function. ' +
+    'Describe what the function does, its parameters, return value and errors when they are not obvious. ' +
+    'Reply only with the text of the comment without comment markers, code or explanations.';
+
+export function docMessages(args: { code: string, filename: string, language: string, convention: string }): ChatMessage[] {
+    let content = `File: ${args.filename}\n\nFunction:\n\`\`\`${args.language}\n${args.code}\n\`\`\`\n\nWrite ${args.convention} for this function.`;
+    return [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content }
+    ];
+}
+
+// Text of the comment, models often wrap it into a fenced block or add comment markers anyway
+export function extractDoc(reply: string, style: DocCommentStyle): string {
+    let text = reply;
+    let fenced = reply.match(/^[ \t]*```[^\n]*\n([\s\S]*?)(^[ \t]*```[ \t]*$|$(?![\s\S]))/m);
+    if (fenced) {
+        text = fenced[1];
+    }
+    let lines = text.trim().split('\n');
+
+    // Markers
+    let start = style.start?.trim();
+    let end = style.end?.trim();
+    let prefix = style.prefix.trim();
+    let opened = false;
+    if (start && lines.length > 0 && lines[0].trim().startsWith(start)) {
+        lines[0] = lines[0].trim().slice(start.length);
+        opened = true;
+    }
+    if (end && lines.length > 0 && lines[lines.length - 1].trim().endsWith(end)) {
+        let last = lines[lines.length - 1].trimEnd();
+        lines[lines.length - 1] = last.slice(0, last.length - end.length);
+    }
+    if (prefix) {
+        lines = lines.map((line) => line.trim().startsWith(prefix) ? line.trim().slice(prefix.length).replace(/^ /, '') : line);
+    }
+
+    // Common indentation and empty lines around, text after opening marker has no indentation of its own
+    if (opened) {
+        lines[0] = lines[0].trim();
+    }
+    let indent = Math.min(...lines.slice(opened ? 1 : 0).filter((line) => line.trim() !== '').map((line) => line.match(/^\s*/)![0].length));
+    lines = lines.map((line, i) => opened && i === 0 ? line : line.slice(Math.min(indent, line.length)).trimEnd());
+    while (lines.length > 0 && lines[0] === '') {
+        lines.shift();
+    }
+    while (lines.length > 0 && lines[lines.length - 1] === '') {
+        lines.pop();
+    }
+    return lines.join('\n');
+}
@@ -0,0 +1,68 @@
+import type Parser from 'web-tree-sitter';
+import { loadParser } from '../modules/treeSitter';
+import { languages } from '../prompts/processors/languages';
+import { findDocTarget } from './target';
+
+// Source with the cursor marked by "|"
+function target(parser: Parser, marked: string, language: keyof typeof languages) {
+    let offset = marked.indexOf('|');
+    let src = marked.slice(0, offset) + marked.slice(offset + 1);
+    let res = findDocTarget(parser, src, offset, languages[language].docComment!);
+    return res && {
+        code: src.slice(res.start, res.end),
+        replaced: src.slice(res.replace.start, res.replace.end),
+        before: src.slice(0, res.replace.start),
+        indent: res.indent
+    };
+}
+
+describe('findDocTarget', () => {
+    let typescript: Parser;
+    let python: Parser;
+    let go: Parser;
+    beforeAll(async () => {
+        typescript = (await loadParser('typescript'))!;
+        python = (await loadParser('python'))!;
+        go = (await loadParser('go'))!;
+    });
+
+    it('should find enclosing method', () => {
+        let res = target(typescript, 'class A {\n    sum(a: number, b: number) {\n        return a |+ b;\n    }\n}\n', 'typescript');
+        expect(res).toEqual({ code: 'sum(a: number, b: number) {\n        return a + b;\n    }', replaced: '', before: 'class A {\n', indent: '    ' });
+    });
+
+    it('should document the whole exported declaration', () => {
+        let res = target(typescript, 'export const sum = (a: number, b: number) => {\n    return |a + b;\n};\n', 'typescript');
+        expect(res).toEqual({ code: 'export const sum = (a: number, b: number) => {\n    return a + b;\n}', replaced: '', before: '', indent: '' });
+    });
+
+    it('should skip callbacks and find function from its line', () => {
+        let res = target(typescript, 'let a = 1;\n\n|  function run() {\n    items.forEach((item) => print(item));\n}\n', 'typescript');
+        expect(res?.code).toBe('function run() {\n    items.forEach((item) => print(item));\n}');
+        expect(target(typescript, 'function run() {\n    items.forEach((item) => print(|item));\n}\n', 'typescript')?.code).toBe('function run() {\n    items.forEach((item) => print(item));\n}');
+        expect(target(typescript, 'let a = |1;\n', 'typescript')).toBeNull();
+    });
+
+    it('should replace existing JSDoc but not other comments', () => {
+        let res = target(typescript, '// Header\n\n/**\n * Old\n */\nfunction f() {\n    |return 1;\n}\n', 'typescript');
+        expect(res?.replaced).toBe('/**\n * Old\n */\n');
+        expect(target(typescript, '/* License */\nfunction f() {\n    |return 1;\n}\n', 'typescript')?.replaced).toBe('');
+    });
+
+    it('should put docstring into the body', () => {
+        let res = target(python, 'class A:\n    @property\n    def value(self):\n        # Cached\n        return |self._value\n', 'python');
+        expect(res).toEqual({ code: 'def value(self):\n        # Cached\n        return self._value', replaced: '', before: 'class A:\n    @property\n    def value(self):\n', indent: '        ' });
+        expect(target(python, 'def f(): return |1\n', 'python')).toBeNull();
+    });
+
+    it('should replace existing docstring', () => {
+        let res = target(python, 'def f():\n    """\n    Old.\n    """\n    return |1\n', 'python');
+        expect(res?.replaced).toBe('    """\n    Old.\n    """\n');
+    });
+
+    it('should replace comment lines above', () => {
+        let res = target(go, 'package main\n\n// Sum adds\n// numbers.\nfunc Sum(a, b int) int {\n\treturn |a + b\n}\n', 'go');
+        expect(res?.replaced).toBe('// Sum adds\n// numbers.\n');
+        expect(res?.code).toBe('func Sum(a, b int) int {\n\treturn a + b\n}');
+    });
+});
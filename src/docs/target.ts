@@ -0,0 +1,117 @@
+import type Parser from 'web-tree-sitter';
+import type { DocCommentStyle } from '../prompts/processors/languages';
+
+type Node = Parser.SyntaxNode;
+
+export type DocTarget = {
+
+    // Function source that is sent to the model
+    start: number,
+    end: number,
+
+    // Where comment goes, replaces existing comment if function already has one
+    replace: { start: number, end: number },
+    indent: string
+};
+
+const functionTypes = new Set([
+    'function_declaration', 'generator_function_declaration', 'function_signature', 'method_definition', 'method_signature',
+    'abstract_method_signature', 'function_definition', 'method_declaration', 'constructor_declaration', 'function_item'
+]);
+
+// Anonymous functions are documented only when they are assigned to something
+const expressionTypes = new Set(['arrow_function', 'function_expression', 'function']);
+const holderTypes = new Set(['variable_declarator', 'public_field_definition', 'pair']);
+
+// Comment goes above the whole declaration, e.g. "export const f = () => ..."
+const wrapperTypes = new Set(['variable_declarator', 'lexical_declaration', 'variable_declaration', 'export_statement', 'public_field_definition', 'pair', 'template_declaration']);
+
+function lineStart(src: string, index: number) {
+    return src.lastIndexOf('\n', index - 1) + 1;
+}
+
+function lineEnd(src: string, index: number) {
+    let res = src.indexOf('\n', index);
+    return res < 0 ? src.length : res;
+}
+
+function findFunction(node: Node | null): Node | null {
+    while (node) {
+        if (functionTypes.has(node.type)) {
+            return node;
+        }
+        if (expressionTypes.has(node.type) && node.parent && holderTypes.has(node.parent.type)) {
+            return node;
+        }
+        node = node.parent;
+    }
+    return null;
+}
+
+// Docstring is the first statement of the body
+function insideTarget(node: Node, src: string): DocTarget | null {
+    let body = node.childForFieldName('body');
+    let colon = node.children.find((n) => n.type === ':');
+    let first = body?.firstNamedChild;
+    if (!body || !colon || !first || lineStart(src, first.startIndex) <= colon.endIndex) { // Body on the same line as the definition
+        return null;
+    }
+    let start = lineEnd(src, colon.endIndex) + 1;
+    let replace = { start, end: start };
+    let statement = body.namedChildren.find((n) => n.type !== 'comment');
+    if (statement && statement.type === 'expression_statement' && statement.firstNamedChild?.type === 'string') {
+        replace = { start: lineStart(src, statement.startIndex), end: Math.min(src.length, lineEnd(src, statement.endIndex) + 1) };
+    }
+    return { start: node.startIndex, end: node.endIndex, replace, indent: src.slice(lineStart(src, first.startIndex), first.startIndex) };
+}
+
+// Comment lines right above the declaration
+function aboveTarget(node: Node, src: string, style: DocCommentStyle): DocTarget {
+    let declaration = node;
+    while (declaration.parent && wrapperTypes.has(declaration.parent.type)) {
+        declaration = declaration.parent;
+    }
+    let insert = lineStart(src, declaration.startIndex);
+    let indent = src.slice(insert).match(/^[ \t]*/)![0];
+    let start = insert;
+    let previous = (offset: number) => src.slice(lineStart(src, offset - 1), offset - 1).trim();
+    if (style.start && style.end) {
+        if (insert > 0 && previous(insert).endsWith(style.end.trim())) {
+            let offset = insert;
+            while (offset > 0) {
+                let line = previous(offset);
+                offset = lineStart(src, offset - 1);
+                if (line.startsWith(style.start)) {
+                    start = offset;
+                    break;
+                }
+                if (!line.startsWith(style.prefix.trim())) { // Not a documentation comment
+                    break;
+                }
+            }
+        }
+    } else {
+        while (start > 0 && previous(start).startsWith(style.prefix.trim()) && !previous(start).startsWith('#!')) {
+            start = lineStart(src, start - 1);
+        }
+    }
+    return { start: declaration.startIndex, end: node.endIndex, replace: { start, end: insert }, indent };
+}
+
+// Find function at the offset or at the beginning of its line
+export function findDocTarget(parser: Parser, src: string, offset: number, style: DocCommentStyle): DocTarget | null {
+    let tree = parser.parse(src);
+    try {
+        let node = findFunction(tree.rootNode.descendantForIndex(offset));
+        if (!node) {
+            let start = lineStart(src, offset);
+            node = findFunction(tree.rootNode.descendantForIndex(start + src.slice(start).match(/^\s*/)![0].length));
+        }
+        if (!node) {
+            return null;
+        }
+        return style.inside ? insideTarget(node, src) : aboveTarget(node, src, style);
+    } finally {
+        tree.delete();
+    }
+}
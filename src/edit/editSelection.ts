@@ -0,0 +1,220 @@
+import vscode from 'vscode';
+import path from 'path';
+import { config } from '../config';
+import { EndpointPool } from '../backends';
+import { connectOllama, ollamaEndpoints } from '../models/connectOllama';
+import { info, warn } from '../modules/log';
+import { ollamaChat } from '../modules/ollamaChat';
+import { isAbortError } from '../modules/scheduler';
+import { isDenylisted } from '../prompts/ignoreFiles';
+import { redactSecrets, restoreSecrets } from '../prompts/processors/secrets';
+import { editMessages, extractCode } from './prompt';
+
+export const editScheme = 'llama-edit';
+
+type PendingEdit = {
+    document: vscode.TextDocument,
+    version: number,
+    range: vscode.Range,
+    original: string,
+    replacement: string,
+    proposed: vscode.Uri,
+    controller: AbortController,
+    changes: vscode.Disposable,
+    done: boolean
+};
+
+//
+// Edits selection by instruction using chat model. Proposed edit is streamed into a virtual document
+// that is shown as a diff with the original one until user accepts or rejects it.
+//
+
+export class EditController implements vscode.TextDocumentContentProvider, vscode.Disposable {
+    private emitter = new vscode.EventEmitter<vscode.Uri>();
+    private pending: PendingEdit | null = null;
+    private counter = 0;
+    private pool: EndpointPool;
+    readonly onDidChange = this.emitter.event;
+
+    constructor(pool: EndpointPool) {
+        this.pool = pool;
+    }
+
+    provideTextDocumentContent(uri: vscode.Uri): string {
+        let pending = this.pending;
+        if (!pending || pending.proposed.toString() !== uri.toString()) {
+            return '';
+        }
+        let text = pending.document.getText();
+        return text.slice(0, pending.document.offsetAt(pending.range.start)) + pending.replacement + text.slice(pending.document.offsetAt(pending.range.end));
+    }
+
+    async editSelection(): Promise<void> {
+        let editor = vscode.window.activeTextEditor;
+        if (!editor) {
+            return;
+        }
+        let document = editor.document;
+        if (isDenylisted(document.uri)) {
+            vscode.window.showWarningMessage('Llama Coder: editing of sensitive files is disabled.');
+            return;
+        }
+        if (ollamaEndpoints().length === 0) {
+            vscode.window.showErrorMessage('Llama Coder: Edit Selection requires an Ollama endpoint.');
+            return;
+        }
+        let editConfig = config.edit;
+
+        // Edit current line if nothing is selected
+        let range: vscode.Range = editor.selection.isEmpty ? document.lineAt(editor.selection.active.line).range : editor.selection;
+        let instruction = await vscode.window.showInputBox({ prompt: 'Describe the change', placeHolder: 'e.g. Add error handling' });
+        if (!instruction) {
+            return;
+        }
+
+        // Find endpoint with the model
+        const endpoint = await connectOllama(this.pool, 'Edit Selection', editConfig.model);
+        if (!endpoint) {
+            return;
+        }
+
+        // Surrounding code and selection, secrets of the selection are put back into the reply that replaces it
+        let before = document.getText(new vscode.Range(new vscode.Position(Math.max(0, range.start.line - editConfig.contextLines), 0), range.start));
+        let after = document.getText(new vscode.Range(range.end, document.lineAt(Math.min(document.lineCount - 1, range.end.line + editConfig.contextLines)).range.end));
+        let original = document.getText(range);
+        let code = original;
+        let secrets: string[] = [];
+        if (config.privacy.redactSecrets) {
+            before = redactSecrets(before).text;
+            after = redactSecrets(after).text;
+            code = redactSecrets(code, secrets).text;
+            if (secrets.length > 0) {
+                info(`Redacted ${secrets.length} secrets in the selection.`);
+            }
+        }
+        let messages = editMessages({
+            instruction,
+            code,
+            before,
+            after,
+            filename: vscode.workspace.asRelativePath(document.uri),
+            language: document.languageId
+        });
+
+        // Show diff that is updated while reply is streamed
+        this.reject();
+        let pending: PendingEdit = {
+            document,
+            version: document.version,
+            range,
+            original,
+            replacement: original,
+            proposed: vscode.Uri.from({ scheme: editScheme, path: document.uri.path, query: String(++this.counter) }),
+            controller: new AbortController(),
+            changes: vscode.workspace.onDidChangeTextDocument((e) => {
+
+                // Diff and the range of the selection are stale once document is changed
+                if (e.document === document && e.contentChanges.length > 0 && this.pending === pending) {
+                    vscode.window.showWarningMessage('Llama Coder: document was changed, proposed edit is discarded.');
+                    this.reject();
+                }
+            }),
+            done: false
+        };
+        this.pending = pending;
+        await vscode.commands.executeCommand('vscode.diff', document.uri, pending.proposed, `${path.basename(document.uri.path)} ↔ Proposed Edit`, { preview: true });
+
+        // Stream reply
+        info(`Running edit with ${editConfig.model} on ${endpoint.name}...`);
+        try {
+            await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: 'Llama Coder: editing',
+                cancellable: true
+            }, async (_, token) => {
+                let subscription = token.onCancellationRequested(() => pending.controller.abort());
+                try {
+                    let reply = '';
+                    for await (let chunk of ollamaChat(endpoint.endpoint, { model: editConfig.model, messages, temperature: editConfig.temperature }, endpoint.bearerToken, pending.controller.signal)) {
+                        reply += chunk;
+                        pending.replacement = restoreSecrets(extractCode(reply, code), secrets);
+                        this.emitter.fire(pending.proposed);
+                    }
+                } finally {
+                    subscription.dispose();
+                }
+            });
+        } catch (e) {
+            if (!isAbortError(e)) {
+                this.pool.failure(endpoint);
+                warn('Error during edit:', e);
+                vscode.window.showErrorMessage(`Llama Coder: unable to edit: ${(e as Error).message}`);
+            }
+            if (this.pending === pending) {
+                this.reject();
+            }
+            return;
+        }
+        pending.done = true;
+        info('Edit completed.');
+
+        // Ask user, proposed edit could be also accepted or rejected with buttons of the diff editor
+        let action = await vscode.window.showInformationMessage('Llama Coder: apply proposed edit?', 'Accept', 'Reject');
+        if (this.pending !== pending) {
+            return;
+        }
+        if (pending.document.version !== pending.version) {
+            vscode.window.showWarningMessage('Llama Coder: document was changed, proposed edit is discarded.');
+            this.reject();
+            return;
+        }
+        if (action === 'Accept') {
+            await this.accept();
+        } else if (action === 'Reject') {
+            this.reject();
+        }
+    }
+
+    async accept(): Promise<void> {
+        let pending = this.pending;
+        if (!pending || !pending.done) {
+            return;
+        }
+        this.pending = null;
+        pending.changes.dispose();
+        await this.close(pending);
+        if (pending.document.version !== pending.version) {
+            vscode.window.showWarningMessage('Llama Coder: document was changed, proposed edit is discarded.');
+            return;
+        }
+        let edit = new vscode.WorkspaceEdit();
+        edit.replace(pending.document.uri, pending.range, pending.replacement);
+        await vscode.workspace.applyEdit(edit);
+    }
+
+    reject() {
+        let pending = this.pending;
+        if (!pending) {
+            return;
+        }
+        this.pending = null;
+        pending.controller.abort();
+        pending.changes.dispose();
+        this.close(pending);
+    }
+
+    dispose() {
+        this.reject();
+        this.emitter.dispose();
+    }
+
+    private async close(pending: PendingEdit) {
+        for (let group of vscode.window.tabGroups.all) {
+            for (let tab of group.tabs) {
+                if (tab.input instanceof vscode.TabInputTextDiff && tab.input.modified.toString() === pending.proposed.toString()) {
+                    await vscode.window.tabGroups.close(tab);
+                }
+            }
+        }
+    }
+}
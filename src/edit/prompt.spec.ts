@@ -0,0 +1,38 @@
+import { editMessages, extractCode } from './prompt';
+
+describe('editMessages', () => {
+    it('should include context, selection and instruction', () => {
+        let messages = editMessages({ instruction: 'Rename a to b', code: 'let a = 1;', before: 'function f() {\n', after: '}\n', filename: 'src/f.ts', language: 'typescript' });
+        expect(messages[0].role).toBe('system');
+        expect(messages[1].content).toBe([
+            'File: src/f.ts',
+            'Code before the selection:\n```typescript\nfunction f() {\n```',
+            'Selected code:\n```typescript\nlet a = 1;\n```',
+            'Code after the selection:\n```typescript\n}\n```',
+            'Instruction: Rename a to b'
+        ].join('\n\n'));
+    });
+
+    it('should skip empty context', () => {
+        let messages = editMessages({ instruction: 'Fix', code: 'x', before: '\n', after: '', filename: 'a.py', language: 'python' });
+        expect(messages[1].content).toBe('File: a.py\n\nSelected code:\n```python\nx\n```\n\nInstruction: Fix');
+    });
+});
+
+describe('extractCode', () => {
+    it('should extract code from fenced block', () => {
+        expect(extractCode('Here it is:\n```ts\nlet b = 1;\n```\nDone.', 'let a = 1;')).toBe('let b = 1;');
+        expect(extractCode('```\nlet b = 1;\n```', 'let a = 1;\n')).toBe('let b = 1;\n');
+    });
+
+    it('should handle partial replies', () => {
+        expect(extractCode('```ts\nlet b', 'let a = 1;')).toBe('let b');
+        expect(extractCode('``', 'let a = 1;')).toBe('');
+        expect(extractCode('```ts\nlet b = 1;\n``', 'let a = 1;')).toBe('let b = 1;');
+        expect(extractCode('```py', 'a = 1')).toBe('');
+    });
+
+    it('should use reply without fences as is', () => {
+        expect(extractCode('let b = 1;\n', 'let a = 1;')).toBe('let b = 1;');
+    });
+});
@@ -0,0 +1,48 @@
+import { ChatMessage } from '../modules/ollamaChat';
+
+const systemPrompt = 'You are an expert programmer that edits code. Rewrite the selected code according to the instruction. ' +
+    'Reply only with the rewritten selected code in a single fenced code block, without explanations. ' +
+    'Keep the indentation of the original code and do not repeat the code around the selection.';
+
+function fenced(code: string, language: string) {
+    return '```' + language + '\n' + code + (code.endsWith('\n') ? '' : '\n') + '```';
+}
+
+export function editMessages(args: { instruction: string, code: string, before: string, after: string, filename: string, language: string }): ChatMessage[] {
+    let parts = [`File: ${args.filename}`];
+    if (args.before.trim() !== '') {
+        parts.push('Code before the selection:\n' + fenced(args.before, args.language));
+    }
+    parts.push('Selected code:\n' + fenced(args.code, args.language));
+    if (args.after.trim() !== '') {
+        parts.push('Code after the selection:\n' + fenced(args.after, args.language));
+    }
+    parts.push('Instruction: ' + args.instruction);
+    return [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: parts.join('\n\n') }
+    ];
+}
+
+// Code from a (possibly partial) reply, models often wrap code into a fenced block or add explanations around it
+export function extractCode(reply: string, original: string): string {
+    let code = reply;
+    let open = reply.match(/^[ \t]*```[^\n]*\n/m);
+    if (open && open.index !== undefined) {
+        code = reply.slice(open.index + open[0].length);
+        let close = code.match(/^[ \t]*```[ \t]*$/m);
+        if (close && close.index !== undefined) {
+            code = code.slice(0, close.index);
+        }
+    }
+
+    // Fence that is still streaming
+    let last = code.slice(code.lastIndexOf('\n') + 1);
+    if (/^\s*`{1,3}[\w+-]*$/.test(last)) {
+        code = code.slice(0, code.length - last.length);
+    }
+
+    // Keep line ending of the selection
+    code = code.replace(/\n$/, '');
+    return original.endsWith('\n') ? code + '\n' : code;
+}
@@ -1,6 +1,21 @@
 import * as vscode from 'vscode';
 import { PromptProvider } from './prompts/provider';
-import { info, registerLogger } from './modules/log';
+import { StatsTracker } from './stats/tracker';
+import { manageModels } from './models/manageModels';
+import { EditController, editScheme } from './edit/editSelection';
+import { ChatViewProvider, chatViewId } from './chat/chatView';
+import { generateDocComment } from './docs/generateDocComment';
+import { generateCommitMessage } from './commit/generateCommitMessage';
+import { info, registerLogger, warn } from './modules/log';
+import { config } from './config';
+import { configurePromptCache, promptCacheScope, retainPromptCache } from './prompts/promptCache';
+import { configureLanguages } from './prompts/processors/languages';
+import { deletePromptCache, loadPromptCache, savePromptCache } from './prompts/promptCacheStorage';
+
+let storageUri: vscode.Uri | null = null;
+
+// Settings that change which model is loaded or how
+const prewarmSettings = ['inference.backend', 'inference.endpoint', 'inference.endpoints', 'inference.model', 'inference.custom.model', 'inference.contextWindow', 'inference.keepAlive', 'inference.modelOptions', 'inference.prewarm'];
 
 export function activate(context: vscode.ExtensionContext) {
 
@@ -8,6 +23,46 @@ export function activate(context: vscode.ExtensionContext) {
 	registerLogger(vscode.window.createOutputChannel('Llama Coder', { log: true }));
 	info('Llama Coder is activated.');
 
+	// Check custom prompt template
+	checkPromptTemplate();
+	context.subscriptions.push(vscode.workspace.onDidChangeConfiguration((e) => {
+		if (e.affectsConfiguration('inference.model') || e.affectsConfiguration('inference.custom')) {
+			checkPromptTemplate();
+		}
+	}));
+
+	// Custom languages from settings
+	configureLanguages(config.languages);
+	context.subscriptions.push(vscode.workspace.onDidChangeConfiguration((e) => {
+		if (e.affectsConfiguration('inference.languages')) {
+			configureLanguages(config.languages);
+		}
+	}));
+
+	// Configure prompt cache
+	storageUri = context.globalStorageUri;
+	configurePromptCache(config.cache);
+	if (config.cache.persistent) {
+		loadPromptCache(context.globalStorageUri, config.inference.endpoints.map(promptCacheScope));
+	}
+	let saveTimer = setInterval(() => { // Deactivation is not guaranteed to complete, save periodically too
+		if (config.cache.persistent) {
+			savePromptCache(context.globalStorageUri);
+		}
+	}, 5 * 60 * 1000);
+	context.subscriptions.push({ dispose: () => clearInterval(saveTimer) });
+	context.subscriptions.push(vscode.workspace.onDidChangeConfiguration((e) => {
+		if (e.affectsConfiguration('inference.cache')) {
+			configurePromptCache(config.cache);
+			if (!config.cache.persistent) {
+				deletePromptCache(context.globalStorageUri);
+			}
+		}
+		if (e.affectsConfiguration('inference')) {
+			retainPromptCache(config.inference.endpoints.map(promptCacheScope));
+		}
+	}));
+
 	// Create status bar
 	context.subscriptions.push(vscode.commands.registerCommand('llama.openSettings', () => {
 		vscode.commands.executeCommand('workbench.action.openSettings', '@ext:ex3ndr.llama-coder');
@@ -19,10 +74,47 @@ export function activate(context: vscode.ExtensionContext) {
 	statusBarItem.show();
 	context.subscriptions.push(statusBarItem);
 
+	// Create local statistics
+	const stats = new StatsTracker(context);
+	context.subscriptions.push(stats);
+	context.subscriptions.push(vscode.commands.registerCommand('llama.acceptCompletion', (id: number, index: number) => {
+		stats.accepted(id, index);
+	}));
+	context.subscriptions.push(vscode.commands.registerCommand('llama.acceptNextWord', () => stats.partiallyAccepted('editor.action.inlineSuggest.acceptNextWord')));
+	context.subscriptions.push(vscode.commands.registerCommand('llama.acceptNextLine', () => stats.partiallyAccepted('editor.action.inlineSuggest.acceptNextLine')));
+	context.subscriptions.push(vscode.commands.registerCommand('llama.showStats', async () => {
+		let document = await vscode.workspace.openTextDocument({ content: stats.report(), language: 'markdown' });
+		await vscode.commands.executeCommand('markdown.showPreview', document.uri);
+	}));
+	context.subscriptions.push(vscode.commands.registerCommand('llama.resetStats', () => {
+		stats.reset();
+	}));
+
 	// Create provider
-	const provider = new PromptProvider(statusBarItem, context);
+	const provider = new PromptProvider(statusBarItem, context, stats);
 	let disposable = vscode.languages.registerInlineCompletionItemProvider({ pattern: '**', }, provider);
 	context.subscriptions.push(disposable);
+	context.subscriptions.push(provider);
+
+	// Manage models on the server that served the last completion or on the one user picks
+	context.subscriptions.push(vscode.commands.registerCommand('llama.manageModels', () => {
+		manageModels(context, provider.served);
+	}));
+
+	// Monitor inference servers and load the model before the first completion
+	provider.monitor.check();
+	provider.prewarm();
+	context.subscriptions.push(vscode.workspace.onDidChangeConfiguration((e) => {
+		if (e.affectsConfiguration('inference')) {
+			provider.monitor.check();
+		}
+		if (prewarmSettings.some((s) => e.affectsConfiguration(s))) {
+			provider.prewarm();
+		}
+	}));
+	context.subscriptions.push(vscode.commands.registerCommand('llama.checkConnection', () => {
+		provider.checkConnection();
+	}));
 
 	context.subscriptions.push(vscode.commands.registerCommand('llama.pause', () => {
 		provider.paused = true;
@@ -33,9 +125,58 @@ export function activate(context: vscode.ExtensionContext) {
 	context.subscriptions.push(vscode.commands.registerCommand('llama.toggle', () => {
 		provider.paused = !provider.paused;
 	}));
+	context.subscriptions.push(vscode.commands.registerCommand('llama.completeBlock', () => {
+		provider.completeBlock();
+	}));
+
+	// Edit selection by instruction
+	const edits = new EditController(provider.pool);
+	context.subscriptions.push(edits);
+	context.subscriptions.push(vscode.workspace.registerTextDocumentContentProvider(editScheme, edits));
+	context.subscriptions.push(vscode.commands.registerCommand('llama.editSelection', () => {
+		edits.editSelection();
+	}));
+	context.subscriptions.push(vscode.commands.registerCommand('llama.acceptEdit', () => {
+		edits.accept();
+	}));
+	context.subscriptions.push(vscode.commands.registerCommand('llama.rejectEdit', () => {
+		edits.reject();
+	}));
+
+	// Document function at the cursor
+	context.subscriptions.push(vscode.commands.registerCommand('llama.generateDocComment', () => {
+		generateDocComment(provider.pool);
+	}));
+
+	// Commit messages
+	context.subscriptions.push(vscode.commands.registerCommand('llama.generateCommitMessage', (sourceControl?: vscode.SourceControl) => {
+		generateCommitMessage(provider.pool, sourceControl);
+	}));
+
+	// Chat view
+	const chat = new ChatViewProvider(context, provider.pool);
+	context.subscriptions.push(chat);
+	context.subscriptions.push(vscode.window.registerWebviewViewProvider(chatViewId, chat));
+	context.subscriptions.push(vscode.commands.registerCommand('llama.clearChat', () => {
+		chat.clear();
+	}));
+
+}
 
+function checkPromptTemplate() {
+	let error = config.promptTemplateError;
+	if (error) {
+		warn('Invalid prompt template: ' + error);
+		vscode.window.showWarningMessage(`Llama Coder: invalid prompt template, Codellama format is used instead. ${error}.`, 'Open Settings').then((v) => {
+			if (v === 'Open Settings') {
+				vscode.commands.executeCommand('llama.openSettings');
+			}
+		});
+	}
 }
 
-export function deactivate() {
-	// Nothing to do now
+export async function deactivate() {
+	if (storageUri && config.cache.persistent) {
+		await savePromptCache(storageUri);
+	}
 }
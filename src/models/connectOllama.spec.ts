@@ -0,0 +1,37 @@
+import { EndpointPool } from '../backends';
+import { MockOllama } from '../testing/ollamaServer';
+import { configure, resetShim, shim } from '../testing/vscode';
+import { connectOllama } from './connectOllama';
+
+describe('connectOllama', () => {
+    let server: MockOllama;
+    beforeEach(async () => {
+        resetShim();
+        server = await new MockOllama({ models: [{ name: 'chat' }] }).start();
+    });
+    afterEach(async () => {
+        await server.close();
+    });
+
+    it('should fail over to the next ollama endpoint', async () => {
+        configure({
+            'inference.endpoints': [
+                { name: 'tgi', backend: 'tgi', endpoint: 'http://127.0.0.1:8080' },
+                { name: 'down', backend: 'ollama', endpoint: 'http://127.0.0.1:1' },
+                { name: 'up', backend: 'ollama', endpoint: server.endpoint }
+            ]
+        });
+        let pool = new EndpointPool();
+        let failure = jest.spyOn(pool, 'failure');
+        expect((await connectOllama(pool, 'Chat', 'chat'))?.name).toBe('up');
+        expect(failure.mock.calls.map(([e]) => e.endpoint)).toEqual(['http://127.0.0.1:1']);
+        expect(shim.messages).toEqual([]);
+    });
+
+    it('should report when there are no ollama endpoints', async () => {
+        configure({ 'inference.backend': 'openai', 'inference.endpoint': 'http://127.0.0.1:8000' });
+        let errors: string[] = [];
+        expect(await connectOllama(new EndpointPool(), 'Chat', 'chat', (message) => errors.push(message))).toBeNull();
+        expect(errors).toEqual(['Chat requires an Ollama endpoint.']);
+    });
+});
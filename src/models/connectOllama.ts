@@ -0,0 +1,42 @@
+import vscode from 'vscode';
+import { Endpoint, config } from '../config';
+import { EndpointPool, createBackend } from '../backends';
+import { warn } from '../modules/log';
+import { ensureModel } from './pullModel';
+
+// Edit, chat, doc comments and commit messages use Ollama /api/chat, so they run on Ollama endpoints only
+export function ollamaEndpoints(): Endpoint[] {
+    return config.inference.endpoints.filter((e) => e.backend === 'ollama');
+}
+
+//
+// First Ollama endpoint of the pool that is reachable, offers to download the model there. Endpoints that fail
+// are backed off the same way as for completions. Errors are shown in a notification unless callback is given.
+//
+
+export async function connectOllama(pool: EndpointPool, feature: string, model: string, onError: (message: string) => void = showError): Promise<Endpoint | null> {
+    let ollama = ollamaEndpoints();
+    if (ollama.length === 0) {
+        onError(`${feature} requires an Ollama endpoint.`);
+        return null;
+    }
+    let available = pool.select(ollama, config.inference.routing);
+    if (available.length === 0) { // All of them are backing off, try anyway since user asked for it
+        available = ollama;
+    }
+    for (let endpoint of available) {
+        let backend = createBackend({ type: 'ollama', endpoint: endpoint.endpoint, bearerToken: endpoint.bearerToken });
+        try {
+            return await ensureModel(backend, model) ? endpoint : null;
+        } catch (e) {
+            pool.failure(endpoint);
+            warn(`Endpoint ${endpoint.name} failed during model check:`, e);
+        }
+    }
+    onError(`Unable to reach ${available.map((e) => e.endpoint).join(', ')}.`);
+    return null;
+}
+
+function showError(message: string) {
+    vscode.window.showErrorMessage(`Llama Coder: ${message}`);
+}
@@ -0,0 +1,145 @@
+import vscode from 'vscode';
+import { Backend, ModelInfo, createBackend } from '../backends';
+import { Endpoint, config } from '../config';
+import { warn } from '../modules/log';
+import { detectModelFormat } from '../prompts/processors/models';
+import { formatSize, pullModel } from './pullModel';
+
+type ModelItem = vscode.QuickPickItem & { model?: ModelInfo, action?: 'pull' };
+
+const deleteButton: vscode.QuickInputButton = { iconPath: new vscode.ThemeIcon('trash'), tooltip: 'Delete model' };
+
+// Switch inference.model, models that are not in the list of well known ones are configured as custom.
+// Endpoint from inference.endpoints with its own model gets the model switched in its entry instead.
+export async function switchModel(context: vscode.ExtensionContext, model: string, endpointIndex: number = -1) {
+    let settings = vscode.workspace.getConfiguration('inference');
+    let entries = settings.get('endpoints') as { model?: string, format?: string }[] ?? [];
+    if (endpointIndex >= 0 && entries[endpointIndex]?.model?.trim()) {
+        let updated = entries.map((e, i) => i === endpointIndex ? { ...e, model, format: detectModelFormat(model) } : e);
+        await settings.update('endpoints', updated, vscode.ConfigurationTarget.Global);
+        vscode.window.showInformationMessage(`Llama Coder now uses ${model} on ${config.inference.endpoints[endpointIndex]?.name ?? 'the endpoint'}.`);
+        return;
+    }
+    let known = context.extension.packageJSON.contributes.configuration[0].properties['inference.model'].enum as string[];
+    if (known.includes(model) && model !== 'custom') {
+        await settings.update('model', model, vscode.ConfigurationTarget.Global);
+    } else {
+        await settings.update('model', 'custom', vscode.ConfigurationTarget.Global);
+        await settings.update('custom.model', model, vscode.ConfigurationTarget.Global);
+        await settings.update('custom.format', detectModelFormat(model), vscode.ConfigurationTarget.Global);
+    }
+    vscode.window.showInformationMessage(`Llama Coder now uses ${model}.`);
+}
+
+async function loadItems(backend: Backend, current: string): Promise<ModelItem[]> {
+    let models = await backend.listModels();
+    let items: ModelItem[] = [];
+    if (backend.downloadModel) {
+        items.push({ label: '$(cloud-download) Download model...', action: 'pull', alwaysShow: true });
+        items.push({ label: 'Installed', kind: vscode.QuickPickItemKind.Separator });
+    }
+    for (let model of models) {
+        items.push({
+            label: (model.name === current ? '$(check) ' : '') + model.name,
+            description: model.size !== undefined ? formatSize(model.size) : undefined,
+            buttons: backend.deleteModel ? [deleteButton] : undefined,
+            model
+        });
+    }
+    return items;
+}
+
+async function askModelName(current: string): Promise<string | undefined> {
+    let name = await vscode.window.showInputBox({
+        title: 'Download model',
+        prompt: 'Model name from Ollama library, e.g. qwen2.5-coder:1.5b-base',
+        value: current
+    });
+    return name?.trim() || undefined;
+}
+
+// Server to manage models on, asked when there are several endpoints. Endpoint that served the last completion goes first.
+async function pickEndpoint(active: Endpoint | null): Promise<{ endpoint: Endpoint, index: number } | undefined> {
+    let endpoints = config.inference.endpoints;
+    if (endpoints.length === 1) {
+        return { endpoint: endpoints[0], index: 0 };
+    }
+    let isActive = (endpoint: Endpoint) => !!active && active.endpoint === endpoint.endpoint && active.modelName === endpoint.modelName;
+    let items = endpoints.map((endpoint, index) => ({
+        label: (isActive(endpoint) ? '$(check) ' : '') + endpoint.name,
+        description: `${endpoint.endpoint} (${endpoint.backend})`,
+        detail: endpoint.modelName,
+        endpoint,
+        index
+    }));
+    items.sort((a, b) => Number(isActive(b.endpoint)) - Number(isActive(a.endpoint)));
+    return await vscode.window.showQuickPick(items, { title: 'Llama Coder models', placeHolder: 'Pick a server to manage models on' });
+}
+
+export async function manageModels(context: vscode.ExtensionContext, active: Endpoint | null = null) {
+    let picked = await pickEndpoint(active);
+    if (!picked) {
+        return;
+    }
+    let { endpoint, index } = picked;
+    let backend = createBackend({ type: endpoint.backend, endpoint: endpoint.endpoint, bearerToken: endpoint.bearerToken });
+
+    let picker = vscode.window.createQuickPick<ModelItem>();
+    picker.title = config.inference.endpoints.length > 1 ? `Llama Coder models on ${endpoint.name}` : 'Llama Coder models';
+    picker.placeholder = 'Pick a model to use';
+    picker.busy = true;
+    picker.show();
+
+    let refresh = async () => {
+        picker.busy = true;
+        try {
+            picker.items = await loadItems(backend, endpoint.modelName);
+        } catch (e) {
+            warn('Unable to list models:', e);
+            picker.hide();
+            vscode.window.showErrorMessage(`Unable to list models on ${backend.endpoint}: ${(e as Error).message}`);
+        } finally {
+            picker.busy = false;
+        }
+    };
+
+    picker.onDidTriggerItemButton(async (e) => {
+        let model = e.item.model;
+        if (!model || !backend.deleteModel) {
+            return;
+        }
+        let confirm = await vscode.window.showWarningMessage(`Delete ${model.name}?`, { modal: true }, 'Delete');
+        if (confirm !== 'Delete') {
+            return;
+        }
+        try {
+            await backend.deleteModel(model.name);
+        } catch (e) {
+            warn('Unable to delete model:', e);
+            vscode.window.showErrorMessage(`Unable to delete ${model.name}: ${(e as Error).message}`);
+        }
+        await refresh();
+    });
+
+    picker.onDidAccept(async () => {
+        let selected = picker.selectedItems[0];
+        picker.hide();
+        if (!selected) {
+            return;
+        }
+        if (selected.action === 'pull') {
+            let name = await askModelName(endpoint.modelName);
+            if (name && await pullModel(backend, name)) {
+                let use = await vscode.window.showInformationMessage(`${name} is downloaded. Use it for completions?`, 'Yes', 'No');
+                if (use === 'Yes') {
+                    await switchModel(context, name, index);
+                }
+            }
+        } else if (selected.model) {
+            await switchModel(context, selected.model.name, index);
+        }
+    });
+
+    picker.onDidHide(() => picker.dispose());
+    await refresh();
+}
@@ -0,0 +1,74 @@
+import vscode from 'vscode';
+import { Backend } from '../backends';
+import { warn } from '../modules/log';
+
+export function formatSize(bytes: number) {
+    if (bytes >= 1024 * 1024 * 1024) {
+        return (bytes / (1024 * 1024 * 1024)).toFixed(1) + ' GB';
+    }
+    return Math.round(bytes / (1024 * 1024)) + ' MB';
+}
+
+// Pull model showing cancellable progress notification, returns true if model was downloaded
+export async function pullModel(backend: Backend, model: string): Promise<boolean> {
+    if (!backend.downloadModel) {
+        return false;
+    }
+    let download = backend.downloadModel.bind(backend);
+    return await vscode.window.withProgress({
+        location: vscode.ProgressLocation.Notification,
+        title: `Downloading ${model}`,
+        cancellable: true
+    }, async (progress, token) => {
+        let controller = new AbortController();
+        let subscription = token.onCancellationRequested(() => controller.abort());
+
+        // Model consists of several layers, each of them reports its own progress
+        let layers = new Map<string, { completed: number, total: number }>();
+        let reported = 0;
+        try {
+            await download(model, (p) => {
+                if (p.digest && p.total) {
+                    layers.set(p.digest, { completed: p.completed ?? 0, total: p.total });
+                }
+                let completed = 0;
+                let total = 0;
+                for (let l of layers.values()) {
+                    completed += l.completed;
+                    total += l.total;
+                }
+                if (total > 0 && p.digest) {
+                    let percent = Math.floor(completed / total * 100);
+                    progress.report({ message: `${formatSize(completed)} / ${formatSize(total)}`, increment: Math.max(0, percent - reported) });
+                    reported = Math.max(reported, percent);
+                } else {
+                    progress.report({ message: p.status });
+                }
+            }, controller.signal);
+            return true;
+        } catch (e) {
+            if (token.isCancellationRequested) {
+                vscode.window.showInformationMessage(`Download of ${model} was canceled.`);
+                return false;
+            }
+            warn('Error during download:', e);
+            vscode.window.showErrorMessage(`Unable to download ${model}: ${(e as Error).message}`);
+            return false;
+        } finally {
+            subscription.dispose();
+        }
+    });
+}
+
+// Offer to download missing model, returns true if model is ready to use
+export async function ensureModel(backend: Backend, model: string): Promise<boolean> {
+    if (await backend.checkModel(model)) {
+        return true;
+    }
+    if (!backend.downloadModel) {
+        vscode.window.showErrorMessage(`Llama Coder: model ${model} is not available on ${backend.endpoint}.`);
+        return false;
+    }
+    let download = await vscode.window.showInformationMessage(`Model ${model} is not downloaded. Do you want to download it?`, 'Yes', 'No');
+    return download === 'Yes' && await pullModel(backend, model);
+}
@@ -0,0 +1,66 @@
+import { MockOllama } from '../testing/ollamaServer';
+import { lineGenerator } from './lineGenerator';
+
+async function collect(endpoint: string, signal?: AbortSignal) {
+    let lines: string[] = [];
+    for await (let line of lineGenerator(endpoint + '/api/generate', { model: 'test', prompt: 'a' }, '', signal)) {
+        lines.push(line);
+    }
+    return lines;
+}
+
+describe('lineGenerator', () => {
+    let server: MockOllama;
+    beforeEach(async () => {
+        server = await new MockOllama({ models: [{ name: 'test' }] }).start();
+    });
+    afterEach(async () => {
+        await server.close();
+    });
+
+    it('should join lines split across chunks', async () => {
+        server.generate = { tokens: ['let', ' a', ' = 1;'], split: 7 };
+        let lines = await collect(server.endpoint);
+        expect(lines.length).toBe(4);
+        expect(lines.slice(0, 3).map((l) => JSON.parse(l).response)).toEqual(['let', ' a', ' = 1;']);
+        expect(JSON.parse(lines[3]).done).toBe(true);
+    });
+
+    it('should decode characters split across chunks', async () => {
+        server.generate = { tokens: ['привет', ' 🦙', ' 世界'], split: 3 };
+        let lines = await collect(server.endpoint);
+        expect(lines.slice(0, 3).map((l) => JSON.parse(l).response)).toEqual(['привет', ' 🦙', ' 世界']);
+    });
+
+    it('should stop slow stream once aborted', async () => {
+        server.generate = { tokens: ['a', 'b', 'c', 'd', 'e', 'f'], delay: 50 };
+        let controller = new AbortController();
+        let lines: string[] = [];
+        await expect((async () => {
+            for await (let line of lineGenerator(server.endpoint + '/api/generate', { model: 'test', prompt: 'a' }, '', controller.signal)) {
+                lines.push(line);
+                controller.abort();
+            }
+        })()).rejects.toMatchObject({ name: 'AbortError' });
+        expect(lines.length).toBe(1);
+        await new Promise((resolve) => setTimeout(resolve, 100));
+        expect(server.requests[0].aborted).toBe(true);
+    });
+
+    it('should fail when connection drops mid-stream', async () => {
+        server.generate = { tokens: ['a', 'b'], disconnect: true, delay: 10 };
+        await expect(collect(server.endpoint)).rejects.toThrow();
+    });
+
+    it('should fail on auth errors', async () => {
+        server.bearerToken = 'secret';
+        server.generate = { tokens: ['a'] };
+        await expect(collect(server.endpoint)).rejects.toMatchObject({ name: 'ServerError', status: 401, message: 'Unable to connect to backend: 401 unauthorized' });
+        let lines: string[] = [];
+        for await (let line of lineGenerator(server.endpoint + '/api/generate', { model: 'test', prompt: 'a' }, 'secret')) {
+            lines.push(line);
+        }
+        expect(lines.length).toBe(2);
+        expect(server.requests[1].authorization).toBe('Bearer secret');
+    });
+});
@@ -1,6 +1,14 @@
-export async function* lineGenerator(url: string, data: any, bearerToken: string): AsyncGenerator<string> {
+import { ServerError, errorText } from "./serverError";
+
+export async function* lineGenerator(url: string, data: any, bearerToken: string, signal?: AbortSignal): AsyncGenerator<string> {
     // Request
     const controller = new AbortController();
+    if (signal) {
+        if (signal.aborted) {
+            controller.abort();
+        }
+        signal.addEventListener('abort', () => controller.abort(), { once: true });
+    }
     let res = await fetch(url, {
       method: 'POST',
       body: JSON.stringify(data),
@@ -13,10 +21,11 @@ export async function* lineGenerator(url: string, data: any, bearerToken: string
       signal: controller.signal,
     });
     if (!res.ok || !res.body) {
-        throw Error('Unable to connect to backend');
+        let message = await responseError(res);
+        throw new ServerError(`Unable to connect to backend: ${res.status}${message ? ' ' + message : ''}`, res.status);
     }
 
-    // Reading stream
+    // Reading stream, multi-byte characters could be split between chunks so decoder keeps incomplete bytes
     let stream = res.body.getReader();
     const decoder = new TextDecoder();
     let pending: string = '';
@@ -26,21 +35,20 @@ export async function* lineGenerator(url: string, data: any, bearerToken: string
 
             // If ended
             if (done) {
-                if (pending.length > 0) { // New lines are impossible here
-                    yield pending;
+                pending += decoder.decode();
+                if (pending.length > 0) { // Last line without a new line
+                    yield trimLine(pending);
                 }
                 break;
             }
 
             // Append chunk
-            let chunk = decoder.decode(value);
-            console.warn(chunk);
-            pending += chunk;
+            pending += decoder.decode(value, { stream: true });
 
-            // Yield results 
+            // Yield results
             while (pending.indexOf('\n') >= 0) {
                 let offset = pending.indexOf('\n');
-                yield pending.slice(0, offset);
+                yield trimLine(pending.slice(0, offset));
                 pending = pending.slice(offset + 1);
             }
         }
@@ -51,4 +59,28 @@ export async function* lineGenerator(url: string, data: any, bearerToken: string
         }
         controller.abort();
     }
-}
\ No newline at end of file
+}
+
+// Server-Sent Events could use CRLF line endings
+function trimLine(line: string) {
+    return line.endsWith('\r') ? line.slice(0, line.length - 1) : line;
+}
+
+// Error from response body, empty if body is not available
+async function responseError(res: Response): Promise<string> {
+    let body: string;
+    try {
+        body = (await res.text()).trim();
+    } catch (e) {
+        return '';
+    }
+    try {
+        let parsed = JSON.parse(body) as { error?: unknown };
+        if (parsed.error) {
+            return errorText(parsed.error);
+        }
+    } catch (e) {
+        // Plain text
+    }
+    return body.slice(0, 200);
+}
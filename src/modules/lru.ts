@@ -0,0 +1,73 @@
+// Map-based LRU cache bounded by number of entries and by total size of entries
+export class LRUCache<V> {
+    private entries = new Map<string, V>();
+    private bytes = 0;
+    private maxEntries: number;
+    private maxBytes: number;
+    private sizeOf: (key: string, value: V) => number;
+
+    constructor(args: { maxEntries: number, maxBytes: number, sizeOf: (key: string, value: V) => number }) {
+        this.maxEntries = args.maxEntries;
+        this.maxBytes = args.maxBytes;
+        this.sizeOf = args.sizeOf;
+    }
+
+    get size() {
+        return this.entries.size;
+    }
+
+    get totalBytes() {
+        return this.bytes;
+    }
+
+    get(key: string): V | undefined {
+        let value = this.entries.get(key);
+        if (value !== undefined) {
+            // Move to the most recent position
+            this.entries.delete(key);
+            this.entries.set(key, value);
+        }
+        return value;
+    }
+
+    set(key: string, value: V) {
+        this.delete(key);
+        this.entries.set(key, value);
+        this.bytes += this.sizeOf(key, value);
+        this.evict();
+    }
+
+    delete(key: string) {
+        let existing = this.entries.get(key);
+        if (existing !== undefined) {
+            this.bytes -= this.sizeOf(key, existing);
+            this.entries.delete(key);
+        }
+    }
+
+    resize(args: { maxEntries: number, maxBytes: number }) {
+        this.maxEntries = args.maxEntries;
+        this.maxBytes = args.maxBytes;
+        this.evict();
+    }
+
+    // Entries from the most recent to the least recent
+    *recent(): Generator<[string, V]> {
+        let all = [...this.entries];
+        for (let i = all.length - 1; i >= 0; i--) {
+            yield all[i];
+        }
+    }
+
+    // Entries from the least recent to the most recent, re-inserting them in this order restores the cache
+    entriesInOrder(): [string, V][] {
+        return [...this.entries];
+    }
+
+    private evict() {
+        while (this.entries.size > 0 && (this.entries.size > this.maxEntries || this.bytes > this.maxBytes)) {
+            let oldest = this.entries.keys().next().value as string;
+            this.delete(oldest);
+        }
+    }
+}
@@ -0,0 +1,21 @@
+import { lineGenerator } from "./lineGenerator";
+import { ServerError, errorText } from "./serverError";
+
+// Parse newline-delimited JSON stream as used by Ollama, errors reported in the stream are thrown
+export async function* ndjsonGenerator<T>(url: string, data: any, bearerToken: string, signal?: AbortSignal): AsyncGenerator<T> {
+    for await (let line of lineGenerator(url, data, bearerToken, signal)) {
+        if (line.trim() === '') {
+            continue;
+        }
+        let parsed: T & { error?: unknown };
+        try {
+            parsed = JSON.parse(line);
+        } catch (e) {
+            throw new ServerError(`Invalid response line: ${line.slice(0, 200)}`);
+        }
+        if (parsed.error) {
+            throw new ServerError(errorText(parsed.error));
+        }
+        yield parsed as T;
+    }
+}
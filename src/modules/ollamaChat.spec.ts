@@ -0,0 +1,51 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { ollamaChat } from './ollamaChat';
+
+async function withServer(chunks: string[], fn: (endpoint: string, requests: any[]) => Promise<void>) {
+    let requests: any[] = [];
+    let server = http.createServer((req, res) => {
+        let data = '';
+        req.on('data', (c) => data += c);
+        req.on('end', () => {
+            requests.push({ path: req.url, body: JSON.parse(data) });
+            res.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+            for (let c of chunks) {
+                res.write(c);
+            }
+            res.end();
+        });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    try {
+        await fn('http://127.0.0.1:' + (server.address() as AddressInfo).port, requests);
+    } finally {
+        await new Promise((resolve) => server.close(resolve));
+    }
+}
+
+describe('ollamaChat', () => {
+    it('should stream assistant reply', async () => {
+        await withServer([
+            '{"model":"chat","message":{"role":"assistant","content":"```ts\\nlet "},"done":false}\n',
+            '{"model":"chat","message":{"role":"assistant","content":"b = 1;\\n```"},"done":false}\n{"model":"chat","message":{"role":"assistant","content":""},"done":true}\n'
+        ], async (endpoint, requests) => {
+            let reply = '';
+            for await (let chunk of ollamaChat(endpoint, { model: 'chat', messages: [{ role: 'user', content: 'hi' }], temperature: 0.2, contextWindow: 8192 }, '')) {
+                reply += chunk;
+            }
+            expect(reply).toBe('```ts\nlet b = 1;\n```');
+            expect(requests[0].path).toBe('/api/chat');
+            expect(requests[0].body.stream).toBe(true);
+            expect(requests[0].body.options.temperature).toBe(0.2);
+            expect(requests[0].body.options.num_ctx).toBe(8192);
+        });
+    });
+
+    it('should throw on errors', async () => {
+        await withServer(['{"error":"model not found"}\n'], async (endpoint) => {
+            let chat = ollamaChat(endpoint, { model: 'chat', messages: [] }, '');
+            await expect(chat.next()).rejects.toThrow('model not found');
+        });
+    });
+});
@@ -0,0 +1,30 @@
+import { ndjsonGenerator } from "./ndjsonGenerator";
+
+export type ChatMessage = {
+    role: 'system' | 'user' | 'assistant',
+    content: string
+};
+
+type OllamaChatChunk = {
+    model: string,
+    message?: ChatMessage,
+    done: boolean
+};
+
+// Stream assistant reply from Ollama chat endpoint
+export async function* ollamaChat(endpoint: string, args: { model: string, messages: ChatMessage[], temperature?: number, contextWindow?: number }, bearerToken: string, signal?: AbortSignal): AsyncGenerator<string> {
+    let data = {
+        model: args.model,
+        messages: args.messages,
+        stream: true,
+        options: args.temperature !== undefined || args.contextWindow !== undefined ? { temperature: args.temperature, num_ctx: args.contextWindow } : undefined
+    };
+    for await (let parsed of ndjsonGenerator<OllamaChatChunk>(endpoint + '/api/chat', data, bearerToken, signal)) {
+        if (parsed.message && parsed.message.content) {
+            yield parsed.message.content;
+        }
+        if (parsed.done) {
+            break;
+        }
+    }
+}
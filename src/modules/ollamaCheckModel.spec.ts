@@ -0,0 +1,22 @@
+import { MockOllama } from '../testing/ollamaServer';
+import { ollamaCheckModel } from './ollamaCheckModel';
+
+describe('ollamaCheckModel', () => {
+    let server: MockOllama;
+    beforeEach(async () => {
+        server = await new MockOllama({ models: [{ name: 'stable-code:3b-code-q4_0' }], bearerToken: 'secret' }).start();
+    });
+    afterEach(async () => {
+        await server.close();
+    });
+
+    it('should find downloaded models', async () => {
+        expect(await ollamaCheckModel(server.endpoint, 'stable-code:3b-code-q4_0', 'secret')).toBe(true);
+        expect(await ollamaCheckModel(server.endpoint, 'codellama:7b-code-q4_K_M', 'secret')).toBe(false);
+        expect(server.requests[0].authorization).toBe('Bearer secret');
+    });
+
+    it('should fail on auth errors', async () => {
+        await expect(ollamaCheckModel(server.endpoint, 'stable-code:3b-code-q4_0', 'wrong')).rejects.toThrow('Network response was not ok.');
+    });
+});
@@ -0,0 +1,19 @@
+import { info } from "./log";
+
+export async function ollamaDeleteModel(endpoint: string, model: string, bearerToken: string) {
+    info('Deleting model from ollama: ' + model);
+    let res = await fetch(endpoint + '/api/delete', {
+      method: 'DELETE',
+      body: JSON.stringify({ name: model }),
+      headers: bearerToken ? {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${bearerToken}`,
+          } : {
+            'Content-Type': 'application/json',
+          },
+    });
+    if (!res.ok) {
+        info(await res.text());
+        throw Error('Unable to delete model ' + model);
+    }
+}
@@ -0,0 +1,42 @@
+import { MockOllama } from '../testing/ollamaServer';
+import { ollamaCheckModel } from './ollamaCheckModel';
+import { OllamaPullProgress, ollamaDownloadModel } from './ollamaDownloadModel';
+
+describe('ollamaDownloadModel', () => {
+    let server: MockOllama;
+    beforeEach(async () => {
+        server = await new MockOllama({ models: [] }).start();
+    });
+    afterEach(async () => {
+        await server.close();
+    });
+
+    it('should report progress of every layer', async () => {
+        server.pull = { layers: [1000, 20], split: 16 };
+        let progress: OllamaPullProgress[] = [];
+        await ollamaDownloadModel(server.endpoint, 'test', '', (p) => progress.push(p));
+        expect(progress[0].status).toBe('pulling manifest');
+        expect(progress[progress.length - 1].status).toBe('success');
+        let layers = new Set(progress.filter((p) => p.digest).map((p) => p.digest));
+        expect(layers.size).toBe(2);
+        expect(progress.filter((p) => p.completed === p.total && p.digest).length).toBe(2);
+        expect(await ollamaCheckModel(server.endpoint, 'test', '')).toBe(true);
+    });
+
+    it('should fail on pull errors', async () => {
+        server.pull = { error: 'pull model manifest: file does not exist' };
+        await expect(ollamaDownloadModel(server.endpoint, 'test', '')).rejects.toMatchObject({ name: 'ServerError', status: null, message: 'pull model manifest: file does not exist' });
+        expect(await ollamaCheckModel(server.endpoint, 'test', '')).toBe(false);
+    });
+
+    it('should stop once aborted', async () => {
+        server.pull = { layers: [1000, 1000, 1000], delay: 30 };
+        let controller = new AbortController();
+        let download = ollamaDownloadModel(server.endpoint, 'test', '', (p) => {
+            if (p.digest) {
+                controller.abort();
+            }
+        }, controller.signal);
+        await expect(download).rejects.toMatchObject({ name: 'AbortError' });
+    });
+});
@@ -1,9 +1,23 @@
-import { lineGenerator } from "./lineGenerator";
+import { ndjsonGenerator } from "./ndjsonGenerator";
 import { info } from "./log";
 
-export async function ollamaDownloadModel(endpoint: string, model: string, bearerToken: string) {
+export type OllamaPullProgress = {
+    status: string,
+    digest?: string,
+    completed?: number,
+    total?: number
+};
+
+export async function ollamaDownloadModel(endpoint: string, model: string, bearerToken: string, onProgress?: (progress: OllamaPullProgress) => void, signal?: AbortSignal) {
     info('Downloading model from ollama: ' + model);
-    for await (let line of lineGenerator(endpoint + '/api/pull', { name: model }, bearerToken)) {
-        info('[DOWNLOAD] ' + line);
+    let lastStatus = '';
+    for await (let progress of ndjsonGenerator<OllamaPullProgress>(endpoint + '/api/pull', { name: model }, bearerToken, signal)) {
+        if (progress.status !== lastStatus) { // Avoid logging every progress update
+            info('[DOWNLOAD] ' + progress.status);
+            lastStatus = progress.status;
+        }
+        if (onProgress) {
+            onProgress(progress);
+        }
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,16 @@
+import { info } from "./log";
+
+export async function ollamaListModels(endpoint: string, bearerToken: string) {
+    let res = await fetch(endpoint + '/api/tags', {
+      headers: bearerToken ? {
+            Authorization: `Bearer ${bearerToken}`,
+          } : {},
+    });
+    if (!res.ok) {
+        info(await res.text());
+        info(endpoint + '/api/tags');
+        throw Error('Network response was not ok.');
+    }
+    let body = await res.json() as { models: { name: string, size: number }[] };
+    return body.models.map((v) => ({ name: v.name, size: v.size }));
+}
@@ -0,0 +1,59 @@
+import { createBackend, GenerationStats } from '../backends';
+import { MockOllama } from '../testing/ollamaServer';
+import { ollamaTokenGenerator } from './ollamaTokenGenerator';
+
+async function collect(endpoint: string, model: string = 'test') {
+    let tokens: string[] = [];
+    for await (let token of ollamaTokenGenerator(endpoint + '/api/generate', { model, prompt: 'hello' }, '')) {
+        tokens.push(token.response);
+    }
+    return tokens;
+}
+
+describe('ollamaTokenGenerator', () => {
+    let server: MockOllama;
+    beforeEach(async () => {
+        server = await new MockOllama({ models: [{ name: 'test' }] }).start();
+    });
+    afterEach(async () => {
+        await server.close();
+    });
+
+    it('should parse streamed tokens', async () => {
+        server.generate = (request) => ({ tokens: [request.prompt.toUpperCase(), '!'], split: 3 });
+        expect(await collect(server.endpoint)).toEqual(['HELLO', '!', '']);
+    });
+
+    it('should fail for missing models', async () => {
+        server.generate = { tokens: ['a'] };
+        await expect(collect(server.endpoint, 'missing')).rejects.toMatchObject({ name: 'ServerError', status: 404, message: expect.stringContaining(`model 'missing' not found`) });
+    });
+
+    it('should throw errors reported mid-stream', async () => {
+        server.generate = { tokens: ['a', 'b'], error: 'llama runner process has terminated' };
+        let tokens: string[] = [];
+        await expect((async () => {
+            for await (let token of ollamaTokenGenerator(server.endpoint + '/api/generate', { model: 'test', prompt: 'a' }, '')) {
+                tokens.push(token.response);
+            }
+        })()).rejects.toMatchObject({ name: 'ServerError', status: null, message: 'llama runner process has terminated' });
+        expect(tokens).toEqual(['a', 'b']);
+    });
+
+    it('should throw on malformed lines', async () => {
+        server.generate = { tokens: ['a'], raw: '<html>Bad Gateway</html>\n' };
+        await expect(collect(server.endpoint)).rejects.toThrow('Invalid response line: <html>Bad Gateway</html>');
+    });
+
+    it('should report final stats', async () => {
+        server.generate = { tokens: ['a', 'b', 'c'] };
+        let backend = createBackend({ type: 'ollama', endpoint: server.endpoint, bearerToken: '' });
+        let stats: GenerationStats[] = [];
+        let res = '';
+        for await (let tokens of backend.generate({ model: 'test', prompt: 'abcd', stop: [], maxTokens: 10, temperature: 0.2, onStats: (s) => stats.push(s) })) {
+            res += tokens;
+        }
+        expect(res).toBe('abc');
+        expect(stats).toEqual([{ promptTokens: 4, promptMs: null, generatedTokens: 3, generationMs: 3, loadMs: null, totalMs: 4, stopReason: 'stop' }]);
+    });
+});
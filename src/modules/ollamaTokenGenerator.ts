@@ -1,22 +1,24 @@
-import { lineGenerator } from "./lineGenerator";
-import { info } from "./log";
+import { ndjsonGenerator } from "./ndjsonGenerator";
 
+// The last token has done set and carries statistics of the generation, durations are in nanoseconds
 export type OllamaToken = {
     model: string,
     response: string,
-    done: boolean
+    done: boolean,
+    done_reason?: string,
+    total_duration?: number,
+    load_duration?: number,
+    prompt_eval_count?: number,
+    prompt_eval_duration?: number,
+    eval_count?: number,
+    eval_duration?: number
 };
 
-export async function* ollamaTokenGenerator(url: string, data: any, bearerToken: string): AsyncGenerator<OllamaToken> {
-    for await (let line of lineGenerator(url, data, bearerToken)) {
-        info('Receive line: ' + line);
-        let parsed: OllamaToken;
-        try {
-            parsed = JSON.parse(line) as OllamaToken;
-        } catch (e) { 
-            console.warn('Receive wrong line: ' + line);
-            continue;
+export async function* ollamaTokenGenerator(url: string, data: any, bearerToken: string, signal?: AbortSignal): AsyncGenerator<OllamaToken> {
+    for await (let token of ndjsonGenerator<OllamaToken>(url, data, bearerToken, signal)) {
+        yield token;
+        if (token.done) {
+            break;
         }
-        yield parsed;
     }
-}
\ No newline at end of file
+}
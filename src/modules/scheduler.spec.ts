@@ -0,0 +1,122 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { RequestScheduler, isAbortError } from './scheduler';
+import { createBackend } from '../backends';
+
+// Ollama-like server that streams a token every 10ms until the client goes away
+async function withSlowServer(fn: (endpoint: string, stats: { sent: number, closed: number }) => Promise<void>) {
+    let stats = { sent: 0, closed: 0 };
+    let server = http.createServer((req, res) => {
+        req.resume();
+        res.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+        let timer = setInterval(() => {
+            stats.sent++;
+            res.write('{"model":"test","response":"a","done":false}\n');
+        }, 10);
+        res.on('close', () => {
+            clearInterval(timer);
+            stats.closed++;
+        });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    try {
+        await fn('http://127.0.0.1:' + (server.address() as AddressInfo).port, stats);
+    } finally {
+        server.closeAllConnections();
+        await new Promise((resolve) => server.close(resolve));
+    }
+}
+
+async function generate(endpoint: string, signal: AbortSignal, onToken: () => void) {
+    let backend = createBackend({ type: 'ollama', endpoint, bearerToken: '' });
+    for await (let _ of backend.generate({ model: 'test', prompt: '', stop: [], maxTokens: 10, temperature: 0.2, signal })) {
+        onToken();
+    }
+}
+
+function waitFor(check: () => boolean) {
+    return new Promise<void>((resolve) => {
+        let timer = setInterval(() => {
+            if (check()) {
+                clearInterval(timer);
+                resolve();
+            }
+        }, 5);
+    });
+}
+
+describe('RequestScheduler', () => {
+    it('should abort running request when a new one arrives', async () => {
+        let scheduler = new RequestScheduler();
+        let started = false;
+        let first = scheduler.run((signal) => new Promise((_, reject) => {
+            started = true;
+            signal.addEventListener('abort', () => reject(new Error('aborted')));
+        }));
+        await waitFor(() => started);
+        let second = scheduler.run(async () => 'second');
+        await expect(first).rejects.toThrow('aborted');
+        expect(await second).toBe('second');
+    });
+
+    it('should drop superseded requests that are still waiting', async () => {
+        let scheduler = new RequestScheduler();
+        let started: string[] = [];
+        let release!: () => void;
+        let first = scheduler.run(() => new Promise<void>((resolve) => {
+            started.push('first');
+            release = resolve;
+        }));
+        await waitFor(() => started.length === 1);
+        let second = scheduler.run(async () => { started.push('second'); });
+        let third = scheduler.run(async () => { started.push('third'); return 'third'; });
+        release();
+        await first;
+        expect(await second).toBeUndefined();
+        expect(await third).toBe('third');
+        expect(started).toEqual(['first', 'third']);
+    });
+
+    it('should not run already canceled requests', async () => {
+        let scheduler = new RequestScheduler();
+        let controller = new AbortController();
+        controller.abort();
+        let called = false;
+        expect(await scheduler.run(async () => { called = true; }, controller.signal)).toBeUndefined();
+        expect(called).toBe(false);
+    });
+
+    it('should stop ollama stream when superseded', async () => {
+        await withSlowServer(async (endpoint, stats) => {
+            let scheduler = new RequestScheduler();
+            let received = 0;
+            let first = scheduler.run((signal) => generate(endpoint, signal, () => received++));
+            await waitFor(() => received >= 3);
+
+            // New request aborts the first one before it runs
+            let second = scheduler.run(async () => 'second');
+            let error = await first.catch((e) => e);
+            expect(isAbortError(error)).toBe(true);
+            expect(await second).toBe('second');
+
+            // Server stops sending once the connection is gone
+            await waitFor(() => stats.closed === 1);
+            let sent = stats.sent;
+            await new Promise((resolve) => setTimeout(resolve, 50));
+            expect(stats.sent).toBe(sent);
+        });
+    });
+
+    it('should stop ollama stream on cancellation', async () => {
+        await withSlowServer(async (endpoint, stats) => {
+            let scheduler = new RequestScheduler();
+            let controller = new AbortController();
+            let received = 0;
+            let request = scheduler.run((signal) => generate(endpoint, signal, () => received++), controller.signal);
+            await waitFor(() => received >= 1);
+            controller.abort();
+            expect(isAbortError(await request.catch((e) => e))).toBe(true);
+            await waitFor(() => stats.closed === 1);
+        });
+    });
+});
@@ -0,0 +1,47 @@
+//
+// Runs one request at a time where only the latest request matters: a new request aborts the running one
+// right away and requests that were superseded while waiting in the queue are dropped without running.
+//
+
+export class RequestScheduler {
+    private current: AbortController | null = null;
+    private running: Promise<void> = Promise.resolve();
+
+    async run<T>(func: (signal: AbortSignal) => Promise<T>, signal?: AbortSignal): Promise<T | undefined> {
+
+        // Supersede previous request
+        let controller = new AbortController();
+        if (signal) {
+            if (signal.aborted) {
+                controller.abort();
+            }
+            signal.addEventListener('abort', () => controller.abort(), { once: true });
+        }
+        if (this.current) {
+            this.current.abort();
+        }
+        this.current = controller;
+
+        // Wait for the previous request to stop
+        let previous = this.running;
+        let done!: () => void;
+        this.running = new Promise<void>((resolve) => done = resolve);
+        try {
+            await previous;
+            if (controller.signal.aborted) {
+                return undefined;
+            }
+            return await func(controller.signal);
+        } finally {
+            if (this.current === controller) {
+                this.current = null;
+            }
+            done();
+        }
+    }
+}
+
+// Fetch rejects with DOMException that is not always an instance of Error
+export function isAbortError(e: unknown): boolean {
+    return typeof e === 'object' && e !== null && (e as { name?: unknown }).name === 'AbortError';
+}
@@ -0,0 +1,26 @@
+// Error reported by inference server, status is null when the error comes in the middle of the stream
+export class ServerError extends Error {
+    readonly status: number | null;
+
+    constructor(message: string, status: number | null = null) {
+        super(message);
+        this.name = 'ServerError';
+        this.status = status;
+    }
+}
+
+// Checked by name the same way as abort errors, instanceof does not work across realms
+export function isServerError(e: unknown): e is ServerError {
+    return typeof e === 'object' && e !== null && (e as { name?: unknown }).name === 'ServerError';
+}
+
+// Ollama sends {"error": "..."}, OpenAI-compatible servers {"error": {"message": "..."}}
+export function errorText(error: unknown): string {
+    if (typeof error === 'string') {
+        return error;
+    }
+    if (typeof error === 'object' && error !== null && typeof (error as { message?: unknown }).message === 'string') {
+        return (error as { message: string }).message;
+    }
+    return JSON.stringify(error);
+}
@@ -0,0 +1,27 @@
+import { lineGenerator } from "./lineGenerator";
+import { info } from "./log";
+import { ServerError, errorText } from "./serverError";
+
+// Parse Server-Sent Events stream as used by OpenAI-compatible servers, llama.cpp and TGI
+export async function* sseGenerator<T>(url: string, data: any, bearerToken: string, signal?: AbortSignal): AsyncGenerator<T> {
+    for await (let line of lineGenerator(url, data, bearerToken, signal)) {
+        if (!line.startsWith('data:')) { // Comments, event names and keep-alive blank lines
+            continue;
+        }
+        let payload = line.slice(5).trim();
+        if (payload === '[DONE]') {
+            break;
+        }
+        let parsed: T & { error?: unknown };
+        try {
+            parsed = JSON.parse(payload);
+        } catch (e) {
+            info('Receive wrong line: ' + line);
+            continue;
+        }
+        if (parsed.error) { // Servers report failures after the stream has started as an error event
+            throw new ServerError(errorText(parsed.error));
+        }
+        yield parsed as T;
+    }
+}
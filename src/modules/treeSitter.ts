@@ -0,0 +1,56 @@
+import Parser from 'web-tree-sitter';
+import { Language } from '../prompts/processors/languages';
+import { warn } from './log';
+
+// Grammars from tree-sitter-wasms that are shipped with the extension, other ones are excluded in .vscodeignore.
+// Dart grammar of the package is built for a newer tree-sitter ABI than web-tree-sitter supports.
+const grammars: { [key in Language]?: string } = {
+    typescript: 'tree-sitter-tsx.wasm', // TSX grammar is a superset of Typescript one
+    javascript: 'tree-sitter-javascript.wasm',
+    java: 'tree-sitter-java.wasm',
+    kotlin: 'tree-sitter-kotlin.wasm',
+    swift: 'tree-sitter-swift.wasm',
+    rust: 'tree-sitter-rust.wasm',
+    python: 'tree-sitter-python.wasm',
+    c: 'tree-sitter-c.wasm',
+    cpp: 'tree-sitter-cpp.wasm',
+    go: 'tree-sitter-go.wasm',
+    php: 'tree-sitter-php.wasm',
+    ruby: 'tree-sitter-ruby.wasm',
+    csharp: 'tree-sitter-c_sharp.wasm',
+    lua: 'tree-sitter-lua.wasm',
+    shellscript: 'tree-sitter-bash.wasm',
+};
+
+let initialized: Promise<void> | null = null;
+let parsers = new Map<Language, Promise<Parser | null>>();
+
+async function createParser(grammar: string): Promise<Parser | null> {
+    try {
+        if (!initialized) {
+            initialized = Parser.init();
+        }
+        await initialized;
+        let language = await Parser.Language.load(require.resolve('tree-sitter-wasms/out/' + grammar));
+        let parser = new Parser();
+        parser.setLanguage(language);
+        return parser;
+    } catch (e) {
+        warn('Unable to load tree-sitter grammar ' + grammar + ':', e);
+        return null;
+    }
+}
+
+// Returns parser for the language or null if there is no grammar for it
+export function loadParser(language: Language): Promise<Parser | null> {
+    let grammar = grammars[language];
+    if (!grammar) {
+        return Promise.resolve(null);
+    }
+    let parser = parsers.get(language);
+    if (!parser) {
+        parser = createParser(grammar);
+        parsers.set(language, parser);
+    }
+    return parser;
+}
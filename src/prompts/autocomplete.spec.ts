@@ -0,0 +1,48 @@
+import { createBackend } from '../backends';
+import { MockOllama } from '../testing/ollamaServer';
+import { autocomplete } from './autocomplete';
+
+describe('autocomplete', () => {
+    let server: MockOllama;
+    beforeEach(async () => {
+        server = await new MockOllama({ models: [{ name: 'test' }] }).start();
+    });
+    afterEach(async () => {
+        await server.close();
+    });
+
+    function complete(tokens: string[], args: { prefix: string, suffix: string, language?: 'typescript' | null, maxLines?: number, block?: boolean }) {
+        server.generate = { tokens, split: 5 };
+        return autocomplete({
+            backend: createBackend({ type: 'ollama', endpoint: server.endpoint, bearerToken: '' }),
+            model: 'test',
+            format: 'stable-code',
+            language: args.language ?? null,
+            prefix: args.prefix,
+            suffix: args.suffix,
+            maxLines: args.maxLines ?? 16,
+            maxTokens: 256,
+            block: args.block,
+            temperature: 0.2
+        });
+    }
+
+    it('should stop on unbalanced brackets without a grammar', async () => {
+        expect(await complete(['a + b', ');\n', 'next();'], { prefix: 'sum(', suffix: '' })).toBe('a + b');
+        expect(await complete(['{ a: [1, 2] }', ' }'], { prefix: 'let a = ', suffix: '' })).toBe('{ a: [1, 2] }');
+    });
+
+    it('should stop after too many lines on top level only', async () => {
+        expect(await complete(['a\n', 'b\n', 'c\n', 'd\n'], { prefix: '', suffix: '', maxLines: 2 })).toBe('a\nb\n');
+        expect(await complete(['f(\n', '1,\n', '2\n', ')\n', 'g\n'], { prefix: '', suffix: '', maxLines: 2 })).toBe('f(\n1,\n2\n)\n');
+    });
+
+    it('should stop at the end of the syntax block', async () => {
+        let prefix = 'function sum(a: number, b: number) {\n    ';
+        expect(await complete(['let res = a + b;\n', '    return res;\n', '}\n', '\nfunction'], { prefix, suffix: '\n}\n', language: 'typescript' })).toBe('let res = a + b;\n    return res;');
+    });
+
+    it('should remove end of text marker and trailing spaces', async () => {
+        expect(await complete(['return 1;  \n', 'x', '<EOT>'], { prefix: '', suffix: '' })).toBe('return 1;\nx');
+    });
+});
@@ -1,46 +1,94 @@
-import { ollamaTokenGenerator } from '../modules/ollamaTokenGenerator';
+import { Backend, GenerationStats } from '../backends';
 import { countSymbol } from '../modules/text';
 import { info } from '../modules/log';
-import { ModelFormat, adaptPrompt } from './processors/models';
+import { loadParser } from '../modules/treeSitter';
+import { PromptFormat, adaptPrompt } from './processors/models';
+import { Language } from './processors/languages';
+import { syntaxLimit } from './processors/syntax';
 
 export async function autocomplete(args: {
-    endpoint: string,
-    bearerToken: string,
+    backend: Backend,
     model: string,
-    format: ModelFormat,
+    format: PromptFormat,
+    filename?: string,
+    language?: Language | null,
     prefix: string,
     suffix: string,
     maxLines: number,
     maxTokens: number,
+    block?: boolean,
     temperature: number,
+    contextWindow?: number,
+    topP?: number,
+    topK?: number,
+    repeatPenalty?: number,
+    seed?: number,
+    keepAlive?: string | number,
+    onFirstToken?: () => void,
+    onStats?: (stats: GenerationStats) => void,
     canceled?: () => boolean,
+    signal?: AbortSignal,
 }): Promise<string> {
 
-    let prompt = adaptPrompt({ prefix: args.prefix, suffix: args.suffix, format: args.format });
+    let prompt = adaptPrompt({ prefix: args.prefix, suffix: args.suffix, format: args.format, filename: args.filename });
 
     // Calculate arguments
-    let data = {
+    let request = {
         model: args.model,
         prompt: prompt.prompt,
-        raw: true,
-        options: {
-            stop: prompt.stop,
-            num_predict: args.maxTokens,
-            temperature: args.temperature
-        }
+        stop: prompt.stop,
+        maxTokens: args.maxTokens,
+        temperature: args.temperature,
+        contextWindow: args.contextWindow,
+        topP: args.topP,
+        topK: args.topK,
+        repeatPenalty: args.repeatPenalty,
+        seed: args.seed,
+        keepAlive: args.keepAlive,
+        signal: args.signal,
+        onStats: args.onStats
     };
 
+    // Syntax-aware stop policy, bracket stack is used for languages without a grammar
+    let parser = args.language ? await loadParser(args.language) : null;
+
     // Receiving tokens
     let res = '';
     let totalLines = 1;
     let blockStack: ('[' | '(' | '{')[] = [];
-    outer: for await (let tokens of ollamaTokenGenerator(args.endpoint + '/api/generate', data, args.bearerToken)) {
+    let first = true;
+    outer: for await (let tokens of args.backend.generate(request)) {
         if (args.canceled && args.canceled()) {
             break;
         }
+        if (first && args.onFirstToken) {
+            args.onFirstToken();
+        }
+        first = false;
+
+        // Check syntax on every finished line
+        if (parser) {
+            res += tokens;
+            if (tokens.includes('\n')) {
+                let limit = syntaxLimit(parser, args.prefix, res, args.suffix, args.block);
+                if (limit !== null) {
+                    info('Syntax block finished, breaking.');
+                    res = res.slice(0, limit);
+                    parser = null; // Already limited
+                    break;
+                }
+            }
+            totalLines += countSymbol(tokens, '\n');
+            if (totalLines > args.maxLines) {
+                info('Too many lines, breaking.');
+                res = res.split('\n').slice(0, args.maxLines).join('\n');
+                break;
+            }
+            continue;
+        }
 
         // Block stack
-        for (let c of tokens.response) {
+        for (let c of tokens) {
 
             // Open block
             if (c === '[') {
@@ -83,7 +131,7 @@ export async function autocomplete(args: {
         }
 
         // Update total lines
-        totalLines += countSymbol(tokens.response, '\n');
+        totalLines += countSymbol(tokens, '\n');
         // Break if too many lines and on top level
         if (totalLines > args.maxLines && blockStack.length === 0) {
             info('Too many lines, breaking.');
@@ -96,6 +144,14 @@ export async function autocomplete(args: {
         res = res.slice(0, res.length - 5);
     }
 
+    // Check syntax of the last line
+    if (parser) {
+        let limit = syntaxLimit(parser, args.prefix, res, args.suffix, args.block);
+        if (limit !== null) {
+            res = res.slice(0, limit);
+        }
+    }
+
     // Trim ends of all lines since sometimes the AI completion will add extra spaces
     res = res.split('\n').map((v) => v.trimEnd()).join('\n');
 
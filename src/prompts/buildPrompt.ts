@@ -0,0 +1,62 @@
+import { fileHeaders } from './processors/fileHeaders';
+import { Language, languages } from './processors/languages';
+import { truncatePrompt } from './processors/truncate';
+import { countTokens } from './processors/tokens';
+import { redactPrompt, redactSecrets } from './processors/secrets';
+
+//
+// Assemble prompt from the text around the cursor: secrets are redacted, file headers and snippets from related files
+// are added and everything is fitted into the token budget. Doesn't depend on VS Code, so benchmark uses it too.
+//
+
+export function buildPrompt(args: {
+    prefix: string,
+    suffix: string,
+    path: string,
+    language: Language | null,
+    snippets: string,
+    promptBudget: number,
+    prefixRatio: number,
+    redact: boolean
+}): { prefix: string, suffix: string, redactions: number } {
+    let prefix = args.prefix;
+    let suffix = args.suffix;
+    let snippets = args.snippets;
+
+    // Replace secrets with placeholders before anything is sent to inference server
+    let redactions = 0;
+    if (args.redact) {
+        let redacted = redactPrompt(prefix, suffix);
+        prefix = redacted.prefix;
+        suffix = redacted.suffix;
+        redactions += redacted.redactions;
+        let redactedSnippets = redactSecrets(snippets);
+        snippets = redactedSnippets.text;
+        redactions += redactedSnippets.redactions;
+    }
+
+    // Add filename and language to prefix
+    // NOTE: Most networks don't have a concept of filenames and expected language, but we expect that some files in training set has something in title that
+    //       would indicate filename and language
+    // NOTE: If we can't detect language, we could ignore this since the number of languages that need detection is limited
+    // NOTE: Snippets are placed above file headers since they are not part of the current file
+    let header = '';
+    if (args.language) {
+        header = fileHeaders(header, args.path, languages[args.language]);
+    }
+    header = snippets + header;
+
+    // Fit into the context window keeping the text nearest to the cursor
+    let truncated = truncatePrompt({
+        prefix,
+        suffix,
+        promptBudget: args.promptBudget - countTokens(header),
+        prefixRatio: args.prefixRatio
+    });
+
+    return {
+        prefix: header + truncated.prefix,
+        suffix: truncated.suffix,
+        redactions
+    };
+}
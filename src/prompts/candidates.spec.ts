@@ -0,0 +1,18 @@
+import { isNearDuplicate, rankCandidates } from './candidates';
+
+describe('rankCandidates', () => {
+    it('should remove empty and duplicate candidates', () => {
+        expect(rankCandidates(['return a;', '', 'return  a;\n', '   '])).toEqual(['return a;']);
+    });
+
+    it('should rank by agreement keeping generation order on ties', () => {
+        expect(rankCandidates(['return a + b;', 'return sum(a, b);', 'return sum(a, b) ;', 'throw new Error();'])).toEqual(['return sum(a, b);', 'return a + b;', 'throw new Error();']);
+    });
+});
+
+describe('isNearDuplicate', () => {
+    it('should detect small differences', () => {
+        expect(isNearDuplicate('const result = compute(input, options);', 'const result = compute(input, option);')).toBe(true);
+        expect(isNearDuplicate('return a;', 'return b;')).toBe(false);
+    });
+});
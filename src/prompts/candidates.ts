@@ -0,0 +1,53 @@
+
+// Normalize whitespace so candidates that differ only in formatting are treated as equal
+function normalizeCandidate(src: string) {
+    return src.trim().replace(/\s+/g, ' ');
+}
+
+function editDistance(a: string, b: string): number {
+    let prev = new Array<number>(b.length + 1);
+    let curr = new Array<number>(b.length + 1);
+    for (let j = 0; j <= b.length; j++) {
+        prev[j] = j;
+    }
+    for (let i = 1; i <= a.length; i++) {
+        curr[0] = i;
+        for (let j = 1; j <= b.length; j++) {
+            curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+        }
+        [prev, curr] = [curr, prev];
+    }
+    return prev[b.length];
+}
+
+export function isNearDuplicate(a: string, b: string, threshold: number = 0.9): boolean {
+    let na = normalizeCandidate(a);
+    let nb = normalizeCandidate(b);
+    if (na === nb) {
+        return true;
+    }
+    let length = Math.max(na.length, nb.length);
+    return 1 - editDistance(na, nb) / length >= threshold;
+}
+
+//
+// Remove empty candidates and merge near-duplicates. Candidates are ranked by the number of samples
+// that agree with them, ties are kept in generation order so the greedy one stays first.
+//
+
+export function rankCandidates(candidates: string[]): string[] {
+    let groups: { value: string, support: number, order: number }[] = [];
+    for (let c of candidates) {
+        if (c.trim() === '') {
+            continue;
+        }
+        let group = groups.find((g) => isNearDuplicate(g.value, c));
+        if (group) {
+            group.support++;
+        } else {
+            groups.push({ value: c, support: 1, order: groups.length });
+        }
+    }
+    groups.sort((a, b) => b.support - a.support || a.order - b.order);
+    return groups.map((g) => g.value);
+}
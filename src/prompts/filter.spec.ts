@@ -0,0 +1,32 @@
+import { createIgnoreMatcher, isLanguageEnabled } from './filter';
+
+describe('isLanguageEnabled', () => {
+    it('should prefer language entry over wildcard', () => {
+        expect(isLanguageEnabled({ '*': true, markdown: false }, 'markdown')).toBe(false);
+        expect(isLanguageEnabled({ '*': true, markdown: false }, 'python')).toBe(true);
+        expect(isLanguageEnabled({ '*': false, python: true }, 'python')).toBe(true);
+        expect(isLanguageEnabled({ '*': false, python: true }, 'yaml')).toBe(false);
+    });
+
+    it('should be enabled by default', () => {
+        expect(isLanguageEnabled({}, 'python')).toBe(true);
+    });
+});
+
+describe('createIgnoreMatcher', () => {
+    it('should match gitignore style patterns', () => {
+        let matcher = createIgnoreMatcher(['.env', '.env.*', '**/*.generated.ts', 'build/', '# comment', '', '!keep.generated.ts']);
+        expect(matcher('.env')).toBe(true);
+        expect(matcher('config/.env.local')).toBe(true);
+        expect(matcher('src/api.generated.ts')).toBe(true);
+        expect(matcher('build/index.js')).toBe(true);
+        expect(matcher('keep.generated.ts')).toBe(false);
+        expect(matcher('src/index.ts')).toBe(false);
+    });
+
+    it('should not match paths outside of the workspace', () => {
+        let matcher = createIgnoreMatcher(['*']);
+        expect(matcher('../other/file.ts')).toBe(false);
+        expect(matcher('')).toBe(false);
+    });
+});
@@ -1,9 +1,27 @@
 import type vscode from 'vscode';
+import ignore from 'ignore';
 
 export function isSupported(doc: vscode.TextDocument) {
     return doc.uri.scheme === 'file' || doc.uri.scheme === 'vscode-notebook-cell' || doc.uri.scheme === 'vscode-remote';
 }
 
+// Language is enabled by its own entry, then by "*" entry and is enabled when neither is set
+export function isLanguageEnabled(enable: { [languageId: string]: boolean }, languageId: string): boolean {
+    if (typeof enable[languageId] === 'boolean') {
+        return enable[languageId];
+    }
+    if (typeof enable['*'] === 'boolean') {
+        return enable['*'];
+    }
+    return true;
+}
+
+// Matcher of relative paths against .gitignore style patterns
+export function createIgnoreMatcher(patterns: string[]): (path: string) => boolean {
+    let matcher = ignore().add(patterns);
+    return (path) => ignore.isPathValid(path) && matcher.ignores(path);
+}
+
 export function isNotNeeded(doc: vscode.TextDocument, position: vscode.Position, context: vscode.InlineCompletionContext): boolean {
 
     // Avoid autocomplete on empty lines
@@ -0,0 +1,86 @@
+import vscode from 'vscode';
+import { config } from '../config';
+import { info } from '../modules/log';
+import { createIgnoreMatcher } from './filter';
+
+//
+// Matches documents against inference.exclude patterns and ignore files in the root of their workspace folder.
+// Matchers are cached per workspace folder and rebuilt when ignore files or settings change.
+//
+
+export class IgnoreFiles implements vscode.Disposable {
+    private matchers = new Map<string, Promise<(path: string) => boolean>>();
+    private disposables: vscode.Disposable[] = [];
+
+    constructor() {
+        let reset = () => this.matchers.clear();
+        let watcher = vscode.workspace.createFileSystemWatcher('**/{.gitignore,.llamacoderignore}');
+        this.disposables.push(
+            watcher,
+            watcher.onDidCreate(reset),
+            watcher.onDidChange(reset),
+            watcher.onDidDelete(reset),
+            vscode.workspace.onDidChangeWorkspaceFolders(reset),
+            vscode.workspace.onDidChangeConfiguration((e) => {
+                if (e.affectsConfiguration('inference.exclude') || e.affectsConfiguration('inference.useGitignore')) {
+                    reset();
+                }
+            })
+        );
+    }
+
+    async isIgnored(uri: vscode.Uri): Promise<boolean> {
+        let folder = vscode.workspace.getWorkspaceFolder(uri);
+        let key = folder ? folder.uri.toString() : '';
+        let matcher = this.matchers.get(key);
+        if (!matcher) {
+            matcher = this.load(folder);
+            this.matchers.set(key, matcher);
+        }
+        return (await matcher)(relativePath(uri));
+    }
+
+    dispose() {
+        for (let d of this.disposables) {
+            d.dispose();
+        }
+        this.matchers.clear();
+    }
+
+    private async load(folder: vscode.WorkspaceFolder | undefined) {
+        let enablement = config.enablement;
+        let patterns = [...enablement.exclude];
+        if (folder) {
+
+            // .llamacoderignore goes last so it could re-include files with "!" patterns
+            let files = enablement.useGitignore ? ['.gitignore', '.llamacoderignore'] : ['.llamacoderignore'];
+            for (let name of files) {
+                let content: Uint8Array;
+                try {
+                    content = await vscode.workspace.fs.readFile(vscode.Uri.joinPath(folder.uri, name));
+                } catch (e) { // Not exists
+                    continue;
+                }
+                info(`Loaded ${name} from ${folder.name}`);
+                patterns.push(...new TextDecoder().decode(content).split(/\r?\n/));
+            }
+        }
+        return createIgnoreMatcher(patterns);
+    }
+}
+
+// Files outside of workspace are matched by their name only
+function relativePath(uri: vscode.Uri) {
+    return vscode.workspace.getWorkspaceFolder(uri) ? vscode.workspace.asRelativePath(uri, false) : uri.path.slice(uri.path.lastIndexOf('/') + 1);
+}
+
+// Sensitive files are never sent to inference server, neither for completion nor as a context
+let denylist: { patterns: string, matcher: (path: string) => boolean } | null = null;
+export function isDenylisted(uri: vscode.Uri): boolean {
+    let patterns = config.privacy.denylist;
+    let key = patterns.join('\n');
+    if (!denylist || denylist.patterns !== key) {
+        denylist = { patterns: key, matcher: createIgnoreMatcher(patterns) };
+    }
+    return denylist.matcher(relativePath(uri));
+}
@@ -1,8 +1,10 @@
 import vscode from 'vscode';
 import { detectLanguage } from './processors/detectLanguage';
-import { fileHeaders } from './processors/fileHeaders';
 import { languages } from './processors/languages';
+import { WorkspaceIndex, workspaceContext } from './workspaceContext';
+import { buildPrompt } from './buildPrompt';
 import { config } from '../config';
+import { info } from '../modules/log';
 
 var decoder = new TextDecoder("utf8");
 
@@ -11,7 +13,7 @@ function getNotebookDocument(document: vscode.TextDocument): vscode.NotebookDocu
         .find(x => x.uri.path === document.uri.path);
 }
 
-export async function preparePrompt(document: vscode.TextDocument, position: vscode.Position, context: vscode.InlineCompletionContext) {
+export async function preparePrompt(document: vscode.TextDocument, position: vscode.Position, context: vscode.InlineCompletionContext, promptBudget: number, index: WorkspaceIndex) {
 
     // Load document text
     let text = document.getText();
@@ -23,7 +25,7 @@ export async function preparePrompt(document: vscode.TextDocument, position: vsc
 
     // If this is a notebook, add the surrounding cells to the prefix and suffix
     let notebookDocument = getNotebookDocument(document);
-    let language = detectLanguage(document.uri.fsPath, document.languageId);
+    let language = detectLanguage(document.uri.fsPath, document.languageId, text);
     let commentStart: string | undefined = undefined;
     if (language) {
         commentStart = languages[language].comment?.start;
@@ -95,16 +97,29 @@ export async function preparePrompt(document: vscode.TextDocument, position: vsc
     //     suffix = null;
     // }
 
-    // Add filename and language to prefix
-    // NOTE: Most networks don't have a concept of filenames and expected language, but we expect that some files in training set has something in title that 
-    //       would indicate filename and language
-    // NOTE: If we can't detect language, we could ignore this since the number of languages that need detection is limited
-    if (language) {
-        prefix = fileHeaders(prefix, document.uri.fsPath, languages[language]);
+    // Add snippets from related files
+    let snippets = '';
+    if (language && config.context.enabled) {
+        snippets = await workspaceContext(index, document, prefix, suffix, language, promptBudget);
     }
 
-    return {
+    let prompt = buildPrompt({
         prefix,
         suffix,
+        path: document.uri.fsPath,
+        language,
+        snippets,
+        promptBudget,
+        prefixRatio: config.inference.prefixRatio,
+        redact: config.privacy.redactSecrets
+    });
+    if (prompt.redactions > 0) {
+        info(`Redacted ${prompt.redactions} secrets from prompt.`);
+    }
+
+    return {
+        prefix: prompt.prefix,
+        suffix: prompt.suffix,
+        language,
     };
-}
\ No newline at end of file
+}
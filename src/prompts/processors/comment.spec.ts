@@ -0,0 +1,29 @@
+import { comment, docComment } from './comment';
+import { languages } from './languages';
+
+describe('comment', () => {
+    it('should use language comment syntax', () => {
+        expect(comment('Path: a.html', languages.html)).toBe('<!-- Path: a.html -->');
+        expect(comment('Path: a.css', languages.css)).toBeNull();
+    });
+});
+
+describe('docComment', () => {
+    it('should format block comments', () => {
+        expect(docComment('Adds numbers.\n\n@param a first', languages.typescript, '    ')).toBe('    /**\n     * Adds numbers.\n     *\n     * @param a first\n     */\n');
+    });
+
+    it('should format line comments', () => {
+        expect(docComment('Sum adds numbers.', languages.go, '\t')).toBe('\t// Sum adds numbers.\n');
+        expect(docComment('Adds.\n\n# Arguments', languages.rust, '')).toBe('/// Adds.\n///\n/// # Arguments\n');
+    });
+
+    it('should format docstrings', () => {
+        expect(docComment('Adds numbers.', languages.python, '    ')).toBe('    """Adds numbers."""\n');
+        expect(docComment('Adds numbers.\n\nArgs:\n    a: first', languages.python, '    ')).toBe('    """Adds numbers.\n\n    Args:\n        a: first\n    """\n');
+    });
+
+    it('should skip languages without doc comments', () => {
+        expect(docComment('Text', languages.yaml, '')).toBeNull();
+    });
+});
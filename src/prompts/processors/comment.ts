@@ -9,4 +9,28 @@ export function comment(text: string, language: LanguageDescriptor): string | nu
         }
     }
     return null;
-}
\ No newline at end of file
+}
+
+// Format documentation comment lines with language convention, returns full lines including the last line break
+export function docComment(text: string, language: LanguageDescriptor, indent: string): string | null {
+    let style = language.docComment;
+    if (!style) {
+        return null;
+    }
+    let lines = text.split('\n').map((line) => (indent + style!.prefix + line).trimEnd());
+    if (style.inline && style.start && style.end) {
+        if (lines.length === 1) {
+            return indent + style.start + text + style.end + '\n';
+        }
+        lines[0] = indent + style.start + text.slice(0, text.indexOf('\n'));
+        lines.push(indent + style.end);
+        return lines.join('\n') + '\n';
+    }
+    if (style.start) {
+        lines.unshift(indent + style.start);
+    }
+    if (style.end) {
+        lines.push(indent + style.end);
+    }
+    return lines.join('\n') + '\n';
+}
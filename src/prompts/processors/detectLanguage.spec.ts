@@ -1,7 +1,70 @@
 import { detectLanguage } from './detectLanguage';
+import { configureLanguages, languages } from './languages';
 
 describe('detectLanguage', () => {
+    afterEach(() => {
+        configureLanguages({});
+    });
+
     it('should detect language from happy path', () => {
-        
+        expect(detectLanguage('/src/index.ts', 'typescript')).toBe('typescript');
+        expect(detectLanguage('/src/app.tsx', 'typescriptreact')).toBe('typescript');
+        expect(detectLanguage('/src/settings.json', 'jsonc')).toBe('json');
+        expect(detectLanguage('/src/main.rb', 'ruby')).toBe('ruby');
+        expect(detectLanguage('/src/Program.cs', 'csharp')).toBe('csharp');
+        expect(detectLanguage('/src/unknown.xyz', 'plaintext')).toBeNull();
+    });
+
+    it('should detect language from extension', () => {
+        expect(detectLanguage('/src/main.py', null)).toBe('python');
+        expect(detectLanguage('/src/notebook.ipynb', null)).toBe('python');
+        expect(detectLanguage('/src/init.lua', null)).toBe('lua');
+        expect(detectLanguage('/src/schema.SQL', null)).toBe('sql');
+        expect(detectLanguage('/infra/main.tf', null)).toBe('terraform');
+        expect(detectLanguage('/lib/widget.dart', null)).toBe('dart');
+        expect(detectLanguage('/src/lib.rs.in', null)).toBe('rust');
+    });
+
+    it('should detect language from filename', () => {
+        expect(detectLanguage('/app/Dockerfile', 'plaintext')).toBe('dockerfile');
+        expect(detectLanguage('/app/Makefile', null)).toBe('makefile');
+        expect(detectLanguage('/app/CMakeLists.txt', null)).toBe('cmake');
+        expect(detectLanguage('/app/Gemfile', null)).toBe('ruby');
+        expect(detectLanguage('/home/user/.zshrc', null)).toBe('shellscript');
+    });
+
+    it('should detect language from shebang', () => {
+        expect(detectLanguage('/bin/deploy', null, '#!/bin/bash\nset -e\n')).toBe('shellscript');
+        expect(detectLanguage('/bin/serve', null, '#!/usr/bin/env node\nrequire("http");\n')).toBe('javascript');
+        expect(detectLanguage('/bin/tool', null, '#!/usr/bin/env -S python3.11 -u\nimport sys\n')).toBe('python');
+        expect(detectLanguage('/bin/tool', null, 'import sys\n')).toBeNull();
+        expect(detectLanguage('/bin/tool', null, '#!/usr/bin/unknown\n')).toBeNull();
+    });
+
+    it('should apply custom languages', () => {
+        configureLanguages({
+            cpp: { extensions: ['h'] },
+            nomad: { name: 'Nomad', extensions: ['.nomad'], comment: { start: '#' } },
+            python: { name: 'Python 3' }
+        });
+        expect(detectLanguage('/src/vector.h', null)).toBe('cpp');
+        expect(languages.cpp.name).toBe('C++');
+        expect(detectLanguage('/jobs/web.nomad', null)).toBe('nomad');
+        expect(detectLanguage('/jobs/web.nomad', 'nomad')).toBe('nomad');
+        expect(languages.nomad.comment).toEqual({ start: '#' });
+        expect(languages.python.name).toBe('Python 3');
+        expect(languages.python.extensions).toContain('.py');
+
+        configureLanguages({});
+        expect(detectLanguage('/src/vector.h', null)).toBe('objective-c');
+        expect(detectLanguage('/jobs/web.nomad', null)).toBeNull();
+    });
+
+    it('should prefer custom languages over aliases', () => {
+        expect(detectLanguage('/infra/job.hcl', 'hcl')).toBe('terraform');
+        configureLanguages({ hcl: { name: 'HCL', extensions: ['.hcl'], comment: { start: '#' } } });
+        expect(detectLanguage('/infra/job.hcl', 'hcl')).toBe('hcl');
+        expect(detectLanguage('/infra/job.hcl', null)).toBe('hcl');
+        expect(detectLanguage('/infra/main.tf', 'terraform')).toBe('terraform');
     });
-});
\ No newline at end of file
+});
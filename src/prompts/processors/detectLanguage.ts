@@ -4,35 +4,71 @@ import { Language, languages } from './languages';
 let aliases: { [key: string]: Language } = {
     'typescriptreact': 'typescript',
     'javascriptreact': 'javascript',
-    'jsx': 'javascript'
+    'jsx': 'javascript',
+    'jsonc': 'json',
+    'dockercompose': 'yaml',
+    'hcl': 'terraform',
+    'objective-cpp': 'objective-c'
 };
 
-export function detectLanguage(uri: string, languageId: string | null): Language | null {
+// Interpreter of a shebang line, e.g. "#!/usr/bin/env -S python3.11 -u" is "python"
+function detectInterpreter(content: string): string | null {
+    let line = content.slice(0, content.indexOf('\n') >= 0 ? content.indexOf('\n') : content.length);
+    if (!line.startsWith('#!')) {
+        return null;
+    }
+    let args = line.slice(2).trim().split(/\s+/);
+    let program = path.posix.basename(args.shift() ?? '');
+    if (program === 'env') {
+        args = args.filter((a) => !a.startsWith('-') && !a.includes('='));
+        program = path.posix.basename(args[0] ?? '');
+    }
+    return program.replace(/[\d.]+$/, '') || null;
+}
 
-    // Resolve aliases
+export function detectLanguage(uri: string, languageId: string | null, content?: string): Language | null {
+
+    // Resolve using language id, aliases apply to ids that are neither built-in nor defined in settings
+    if (!!languageId && !!languages[languageId]) {
+        return languageId;
+    }
     if (!!languageId && aliases[languageId]) {
         return aliases[languageId];
     }
 
-    // Resolve using language id
-    if (!!languageId && !!languages[languageId as Language]) {
-        return languageId as Language;
-    }
-
     // Resolve using filename and extension
-    let basename = path.basename(uri);
-    let extname = path.extname(basename).toLowerCase();
+    let basename = path.basename(uri).toLowerCase();
 
-    // Check extensions
+    // Check filenames
     for (let lang in languages) {
-        let k = languages[lang as Language];
-        for (let ex of k.extensions) {
-            if (extname === ex) {
-                return lang as Language;
+        if (languages[lang].filenames?.some((f) => f.toLowerCase() === basename)) {
+            return lang;
+        }
+    }
+
+    // Check extensions, longest one wins so '.rs.in' goes before '.in'
+    let match: { lang: Language, length: number } | null = null;
+    for (let lang in languages) {
+        for (let ex of languages[lang].extensions) {
+            if (basename.endsWith(ex) && basename.length > ex.length && (!match || ex.length > match.length)) {
+                match = { lang, length: ex.length };
+            }
+        }
+    }
+    if (match) {
+        return match.lang;
+    }
+
+    // Check shebang
+    let interpreter = content ? detectInterpreter(content) : null;
+    if (interpreter) {
+        for (let lang in languages) {
+            if (languages[lang].interpreters?.includes(interpreter)) {
+                return lang;
             }
         }
     }
 
     // Return result
     return null;
-}
\ No newline at end of file
+}
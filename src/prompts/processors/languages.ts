@@ -2,7 +2,8 @@
 // Well Known Languages
 //
 
-export type Language =
+// Built-in languages by VS Code language id, settings could add more so any id is a language
+export type BuiltinLanguage =
 
     // Web Languages
     | 'typescript'
@@ -12,6 +13,9 @@ export type Language =
     | 'json'
     | 'yaml'
     | 'xml'
+    | 'vue'
+    | 'svelte'
+    | 'graphql'
 
     // Generic languages that is popular in VS Code
     | 'java'
@@ -24,18 +28,69 @@ export type Language =
     | 'cpp'
     | 'go'
     | 'php'
+    | 'ruby'
+    | 'csharp'
+    | 'fsharp'
+    | 'vb'
+    | 'dart'
+    | 'scala'
+    | 'groovy'
+    | 'lua'
+    | 'perl'
+    | 'r'
+    | 'julia'
+    | 'haskell'
+    | 'elixir'
+    | 'erlang'
+    | 'clojure'
+    | 'ocaml'
+    | 'elm'
+    | 'zig'
+    | 'solidity'
+
+    // Data, build and infrastructure
+    | 'sql'
+    | 'proto'
+    | 'toml'
+    | 'ini'
+    | 'terraform'
+    | 'nix'
+    | 'dockerfile'
+    | 'makefile'
+    | 'cmake'
+
+    // Documents
+    | 'markdown'
+    | 'latex'
 
     // Shell
     | 'bat'
     | 'shellscript'
+    | 'powershell'
 
     ;
 
+export type Language = string;
+
+// Documentation comment convention, "inside" comments go into the function body (Python docstrings),
+// "inline" ones start right after the opening marker
+export type DocCommentStyle = {
+    convention: string,
+    start?: string,
+    prefix: string,
+    end?: string,
+    inside?: boolean,
+    inline?: boolean
+};
+
+// Filenames are matched case-insensitively, interpreters are matched against shebang line of the file
 export type LanguageDescriptor = {
     name: string,
     extensions: string[],
     filenames?: string[],
-    comment?: { start: string, end?: string }
+    interpreters?: string[],
+    comment?: { start: string, end?: string },
+    docComment?: DocCommentStyle
 };
 
 //
@@ -44,18 +99,21 @@ export type LanguageDescriptor = {
 // Extensions from: https://github.com/github-linguist/linguist/blob/master/lib/linguist/languages.yml
 //
 
-export const languages: { [key in Language]: LanguageDescriptor } = {
+export const builtinLanguages: { [key in BuiltinLanguage]: LanguageDescriptor } = {
 
     // Web languages
     typescript: {
         name: 'Typescript',
         extensions: ['.ts', '.tsx', '.cts', '.mts'],
-        comment: { start: '//' }
+        comment: { start: '//' },
+        docComment: { convention: 'JSDoc', start: '/**', prefix: ' * ', end: ' */' }
     },
     javascript: {
         name: 'Javascript',
-        extensions: ['.js', '.jsx', '.cjs'],
-        comment: { start: '//' }
+        extensions: ['.js', '.jsx', '.cjs', '.mjs'],
+        interpreters: ['node', 'deno', 'bun'],
+        comment: { start: '//' },
+        docComment: { convention: 'JSDoc', start: '/**', prefix: ' * ', end: ' */' }
     },
     html: {
         name: 'HTML',
@@ -79,61 +137,277 @@ export const languages: { [key in Language]: LanguageDescriptor } = {
     },
     xml: {
         name: 'XML',
-        extensions: ['.xml'],
+        extensions: ['.xml', '.xsd', '.xsl', '.xslt', '.svg', '.csproj', '.fsproj', '.vbproj', '.props', '.targets', '.plist'],
+        comment: { start: '<!--', end: '-->' }
+    },
+    vue: {
+        name: 'Vue',
+        extensions: ['.vue'],
         comment: { start: '<!--', end: '-->' }
     },
+    svelte: {
+        name: 'Svelte',
+        extensions: ['.svelte'],
+        comment: { start: '<!--', end: '-->' }
+    },
+    graphql: {
+        name: 'GraphQL',
+        extensions: ['.graphql', '.gql', '.graphqls'],
+        comment: { start: '#' }
+    },
 
     // Generic languages
     java: {
         name: 'Java',
         extensions: ['.java'],
-        comment: { start: '//' }
+        comment: { start: '//' },
+        docComment: { convention: 'Javadoc', start: '/**', prefix: ' * ', end: ' */' }
     },
     kotlin: {
         name: 'Kotlin',
         extensions: ['.kt', '.ktm', '.kts'],
-        comment: { start: '//' }
+        comment: { start: '//' },
+        docComment: { convention: 'KDoc', start: '/**', prefix: ' * ', end: ' */' }
     },
     swift: {
         name: 'Swift',
         extensions: ['.swift'],
-        comment: { start: '//' }
+        comment: { start: '//' },
+        docComment: { convention: 'Swift documentation comment', prefix: '/// ' }
     },
     "objective-c": {
         name: 'Objective C',
         extensions: ['.h', '.m', '.mm'],
-        comment: { start: '//' }
+        comment: { start: '//' },
+        docComment: { convention: 'HeaderDoc', start: '/**', prefix: ' * ', end: ' */' }
     },
     rust: {
         name: 'Rust',
         extensions: ['.rs', '.rs.in'],
-        comment: { start: '//' }
+        comment: { start: '//' },
+        docComment: { convention: 'Rust documentation comment', prefix: '/// ' }
     },
     python: {
         name: 'Python',
-        extensions: ['.py', 'ipynb'],
-        comment: { start: '#' }
+        extensions: ['.py', '.pyi', '.ipynb'],
+        filenames: ['SConstruct', 'SConscript'],
+        interpreters: ['python', 'pypy'],
+        comment: { start: '#' },
+        docComment: { convention: 'PEP 257 docstring', start: '"""', prefix: '', end: '"""', inside: true, inline: true }
     },
     c: {
         name: 'C',
         extensions: ['.c', '.h'],
-        comment: { start: '//' }
+        comment: { start: '//' },
+        docComment: { convention: 'Doxygen', start: '/**', prefix: ' * ', end: ' */' }
     },
     cpp: {
         name: 'C++',
         extensions: ['.cpp', '.h'],
-        comment: { start: '//' }
+        comment: { start: '//' },
+        docComment: { convention: 'Doxygen', start: '/**', prefix: ' * ', end: ' */' }
     },
     go: {
         name: 'Go',
         extensions: ['.go'],
-        comment: { start: '//' }
+        comment: { start: '//' },
+        docComment: { convention: 'Go doc comment', prefix: '// ' }
     },
     php: {
         name: 'PHP',
         extensions: ['.aw', '.ctp', '.fcgi', '.inc', '.php', '.php3', '.php4', '.php5', '.phps', '.phpt'],
+        interpreters: ['php'],
+        comment: { start: '//' },
+        docComment: { convention: 'PHPDoc', start: '/**', prefix: ' * ', end: ' */' }
+    },
+    ruby: {
+        name: 'Ruby',
+        extensions: ['.rb', '.rake', '.gemspec', '.ru', '.erb'],
+        filenames: ['Gemfile', 'Rakefile', 'Guardfile', 'Podfile', 'Vagrantfile', 'Brewfile'],
+        interpreters: ['ruby'],
+        comment: { start: '#' },
+        docComment: { convention: 'YARD', prefix: '# ' }
+    },
+    csharp: {
+        name: 'C#',
+        extensions: ['.cs', '.csx'],
+        comment: { start: '//' },
+        docComment: { convention: 'XML documentation comment', prefix: '/// ' }
+    },
+    fsharp: {
+        name: 'F#',
+        extensions: ['.fs', '.fsi', '.fsx'],
+        comment: { start: '//' },
+        docComment: { convention: 'XML documentation comment', prefix: '/// ' }
+    },
+    vb: {
+        name: 'Visual Basic',
+        extensions: ['.vb', '.vbs'],
+        comment: { start: "'" },
+        docComment: { convention: 'XML documentation comment', prefix: "''' " }
+    },
+    dart: {
+        name: 'Dart',
+        extensions: ['.dart'],
+        comment: { start: '//' },
+        docComment: { convention: 'Dart doc comment', prefix: '/// ' }
+    },
+    scala: {
+        name: 'Scala',
+        extensions: ['.scala', '.sc', '.sbt'],
+        interpreters: ['scala'],
+        comment: { start: '//' },
+        docComment: { convention: 'Scaladoc', start: '/**', prefix: ' * ', end: ' */' }
+    },
+    groovy: {
+        name: 'Groovy',
+        extensions: ['.groovy', '.gradle', '.gvy'],
+        filenames: ['Jenkinsfile'],
+        interpreters: ['groovy'],
+        comment: { start: '//' },
+        docComment: { convention: 'Groovydoc', start: '/**', prefix: ' * ', end: ' */' }
+    },
+    lua: {
+        name: 'Lua',
+        extensions: ['.lua', '.rockspec'],
+        interpreters: ['lua', 'luajit'],
+        comment: { start: '--' },
+        docComment: { convention: 'LDoc', prefix: '--- ' }
+    },
+    perl: {
+        name: 'Perl',
+        extensions: ['.pl', '.pm', '.t'],
+        interpreters: ['perl'],
+        comment: { start: '#' }
+    },
+    r: {
+        name: 'R',
+        extensions: ['.r', '.rmd'],
+        interpreters: ['Rscript'],
+        comment: { start: '#' },
+        docComment: { convention: 'roxygen2', prefix: "#' " }
+    },
+    julia: {
+        name: 'Julia',
+        extensions: ['.jl'],
+        interpreters: ['julia'],
+        comment: { start: '#' },
+        docComment: { convention: 'Julia docstring', start: '"""', prefix: '', end: '"""' }
+    },
+    haskell: {
+        name: 'Haskell',
+        extensions: ['.hs', '.lhs'],
+        interpreters: ['runhaskell', 'stack'],
+        comment: { start: '--' },
+        docComment: { convention: 'Haddock', prefix: '-- | ' }
+    },
+    elixir: {
+        name: 'Elixir',
+        extensions: ['.ex', '.exs'],
+        interpreters: ['elixir'],
+        comment: { start: '#' }
+    },
+    erlang: {
+        name: 'Erlang',
+        extensions: ['.erl', '.hrl'],
+        filenames: ['rebar.config'],
+        interpreters: ['escript'],
+        comment: { start: '%' },
+        docComment: { convention: 'EDoc', prefix: '%% ' }
+    },
+    clojure: {
+        name: 'Clojure',
+        extensions: ['.clj', '.cljs', '.cljc', '.edn'],
+        comment: { start: ';;' }
+    },
+    ocaml: {
+        name: 'OCaml',
+        extensions: ['.ml', '.mli'],
+        interpreters: ['ocaml'],
+        comment: { start: '(*', end: '*)' }
+    },
+    elm: {
+        name: 'Elm',
+        extensions: ['.elm'],
+        comment: { start: '--' }
+    },
+    zig: {
+        name: 'Zig',
+        extensions: ['.zig', '.zon'],
+        comment: { start: '//' },
+        docComment: { convention: 'Zig doc comment', prefix: '/// ' }
+    },
+    solidity: {
+        name: 'Solidity',
+        extensions: ['.sol'],
+        comment: { start: '//' },
+        docComment: { convention: 'NatSpec', prefix: '/// ' }
+    },
+
+    // Data, build and infrastructure
+    sql: {
+        name: 'SQL',
+        extensions: ['.sql', '.ddl', '.psql'],
+        comment: { start: '--' }
+    },
+    proto: {
+        name: 'Protocol Buffers',
+        extensions: ['.proto'],
         comment: { start: '//' }
     },
+    toml: {
+        name: 'TOML',
+        extensions: ['.toml'],
+        filenames: ['Cargo.lock', 'Pipfile', 'poetry.lock'],
+        comment: { start: '#' }
+    },
+    ini: {
+        name: 'INI',
+        extensions: ['.ini', '.cfg', '.conf', '.properties'],
+        filenames: ['.editorconfig', '.gitconfig', '.npmrc'],
+        comment: { start: ';' }
+    },
+    terraform: {
+        name: 'Terraform',
+        extensions: ['.tf', '.tfvars', '.hcl'],
+        comment: { start: '#' }
+    },
+    nix: {
+        name: 'Nix',
+        extensions: ['.nix'],
+        comment: { start: '#' }
+    },
+    dockerfile: {
+        name: 'Dockerfile',
+        extensions: ['.dockerfile'],
+        filenames: ['Dockerfile', 'Containerfile'],
+        comment: { start: '#' }
+    },
+    makefile: {
+        name: 'Makefile',
+        extensions: ['.mk', '.mak', '.make'],
+        filenames: ['Makefile', 'GNUmakefile', 'makefile'],
+        interpreters: ['make'],
+        comment: { start: '#' }
+    },
+    cmake: {
+        name: 'CMake',
+        extensions: ['.cmake'],
+        filenames: ['CMakeLists.txt'],
+        comment: { start: '#' }
+    },
+
+    // Documents
+    markdown: {
+        name: 'Markdown',
+        extensions: ['.md', '.markdown', '.mdx'],
+        comment: { start: '<!--', end: '-->' }
+    },
+    latex: {
+        name: 'LaTeX',
+        extensions: ['.tex', '.sty', '.cls'],
+        comment: { start: '%' }
+    },
 
     // Shell
     bat: {
@@ -143,7 +417,40 @@ export const languages: { [key in Language]: LanguageDescriptor } = {
     },
     shellscript: {
         name: 'Shell',
-        extensions: ['.bash', '.sh'],
-        comment: { start: '#' }
+        extensions: ['.bash', '.sh', '.zsh'],
+        filenames: ['.bashrc', '.bash_profile', '.profile', '.zshrc', '.zprofile', 'PKGBUILD'],
+        interpreters: ['sh', 'bash', 'zsh', 'dash', 'ksh'],
+        comment: { start: '#' },
+        docComment: { convention: 'shell function comment', prefix: '# ' }
+    },
+    powershell: {
+        name: 'PowerShell',
+        extensions: ['.ps1', '.psm1', '.psd1'],
+        interpreters: ['pwsh'],
+        comment: { start: '#' },
+        docComment: { convention: 'comment-based help', start: '<#', prefix: '', end: '#>' }
+    }
+};
+
+//
+// Languages in use: built-in ones merged with custom descriptors from settings
+//
+
+export let languages: { [key: Language]: LanguageDescriptor } = { ...builtinLanguages };
+
+// Custom descriptors override fields of built-in ones or add new languages. Languages with own extensions or filenames
+// go first so they win over built-in ones during detection, e.g. '.h' mapped to 'cpp'.
+export function configureLanguages(custom: { [key: Language]: Partial<LanguageDescriptor> }) {
+    let res: { [key: Language]: LanguageDescriptor } = {};
+    let builtin: { [key: Language]: LanguageDescriptor } = builtinLanguages;
+    let claiming = Object.keys(custom).filter((k) => !!custom[k].extensions || !!custom[k].filenames);
+    for (let id of [...claiming, ...Object.keys(builtinLanguages), ...Object.keys(custom)]) {
+        if (res[id]) {
+            continue;
+        }
+        let descriptor: LanguageDescriptor = { ...(builtin[id] ?? { name: id, extensions: [] }), ...custom[id] };
+        descriptor.extensions = descriptor.extensions.map((e) => (e.startsWith('.') ? e : '.' + e).toLowerCase());
+        res[id] = descriptor;
     }
-};
\ No newline at end of file
+    languages = res;
+}
\ No newline at end of file
@@ -0,0 +1,30 @@
+import { adaptPrompt, detectModelFormat, validateTemplate } from './models';
+
+describe('adaptPrompt', () => {
+    it('should keep built-in formats', () => {
+        expect(adaptPrompt({ format: 'codellama', prefix: 'a', suffix: 'b' }).prompt).toBe('<PRE> a <SUF> b <MID>');
+        expect(adaptPrompt({ format: 'codestral', prefix: 'a', suffix: 'b' }).prompt).toBe('[SUFFIX]b[PREFIX]a');
+    });
+
+    it('should apply user templates', () => {
+        let res = adaptPrompt({ format: { template: '<file>{filename}\n<pre>{prefix}<suf>{suffix}<mid>', stop: ['<end>'] }, prefix: 'let a = "{suffix}$&";', suffix: ';', filename: 'src/a.ts' });
+        expect(res.prompt).toBe('<file>src/a.ts\n<pre>let a = "{suffix}$&";<suf>;<mid>');
+        expect(res.stop).toEqual(['<end>']);
+    });
+});
+
+describe('validateTemplate', () => {
+    it('should validate placeholders', () => {
+        expect(validateTemplate({ template: '<pre>{prefix}<suf>{suffix}<mid>', stop: [] })).toBeNull();
+        expect(validateTemplate({ template: '<pre>{prefix}<mid>', stop: [] })).not.toBeNull();
+        expect(validateTemplate({ template: '{prefix}{suffix}{language}', stop: [] })).toBe('Unknown placeholder {language}');
+        expect(validateTemplate({ template: '{prefix}{suffix}', stop: [''] })).not.toBeNull();
+    });
+});
+
+describe('detectModelFormat', () => {
+    it('should detect format from model name', () => {
+        expect(detectModelFormat('qwen2.5-coder:7b-base')).toBe('qwen2.5-coder');
+        expect(detectModelFormat('codellama:7b-code-q4_K_M')).toBe('codellama');
+    });
+});
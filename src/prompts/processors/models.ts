@@ -1,6 +1,102 @@
-export type ModelFormat = 'codellama' | 'deepseek' | 'stable-code';
+export type ModelFormat =
+    | 'codellama'
+    | 'deepseek'
+    | 'stable-code'
+    | 'starcoder2'
+    | 'qwen2.5-coder'
+    | 'codegemma'
+    | 'codestral';
 
-export function adaptPrompt(args: { format: ModelFormat, prefix: string, suffix: string }): { prompt: string, stop: string[] } {
+// Template with {prefix}, {suffix} and {filename} placeholders and stop tokens of the model
+export type PromptTemplate = {
+    template: string,
+    stop: string[]
+};
+
+export type PromptFormat = ModelFormat | PromptTemplate;
+
+export const templates: { [key in ModelFormat]: PromptTemplate } = {
+
+    // Codellama FIM
+    'codellama': {
+        template: '<PRE> {prefix} <SUF> {suffix} <MID>',
+        stop: [`<END>`, `<EOD>`, `<EOT>`]
+    },
+
+    // Deepseek FIM
+    'deepseek': {
+        template: '<｜fim▁begin｜>{prefix}<｜fim▁hole｜>{suffix}<｜fim▁end｜>',
+        stop: [`<｜fim▁begin｜>`, `<｜fim▁hole｜>`, `<｜fim▁end｜>`, `<END>`]
+    },
+
+    // Stable code FIM
+    'stable-code': {
+        template: '<fim_prefix>{prefix}<fim_suffix>{suffix}<fim_middle>',
+        stop: [`<|endoftext|>`]
+    },
+
+    // StarCoder2 FIM
+    'starcoder2': {
+        template: '<fim_prefix>{prefix}<fim_suffix>{suffix}<fim_middle>',
+        stop: [`<|endoftext|>`, `<file_sep>`, `<fim_prefix>`, `<fim_suffix>`, `<fim_middle>`]
+    },
+
+    // Qwen 2.5 Coder FIM
+    'qwen2.5-coder': {
+        template: '<|fim_prefix|>{prefix}<|fim_suffix|>{suffix}<|fim_middle|>',
+        stop: [`<|endoftext|>`, `<|fim_pad|>`, `<|file_sep|>`, `<|repo_name|>`, `<|im_start|>`, `<|fim_prefix|>`, `<|fim_suffix|>`, `<|fim_middle|>`]
+    },
+
+    // CodeGemma FIM
+    'codegemma': {
+        template: '<|fim_prefix|>{prefix}<|fim_suffix|>{suffix}<|fim_middle|>',
+        stop: [`<|file_separator|>`, `<|fim_prefix|>`, `<|fim_suffix|>`, `<|fim_middle|>`, `<eos>`]
+    },
+
+    // Codestral FIM, suffix goes first
+    'codestral': {
+        template: '[SUFFIX]{suffix}[PREFIX]{prefix}',
+        stop: [`</s>`, `[INST]`, `[/INST]`, `[PREFIX]`, `[SUFFIX]`, `[MIDDLE]`]
+    }
+};
+
+// Detect format from the name of the model in Ollama library
+export function detectModelFormat(modelName: string): ModelFormat {
+    if (modelName.startsWith('deepseek-coder')) {
+        return 'deepseek';
+    } else if (modelName.startsWith('stable-code')) {
+        return 'stable-code';
+    } else if (modelName.startsWith('starcoder2')) {
+        return 'starcoder2';
+    } else if (modelName.startsWith('qwen2.5-coder')) {
+        return 'qwen2.5-coder';
+    } else if (modelName.startsWith('codegemma')) {
+        return 'codegemma';
+    } else if (modelName.startsWith('codestral')) {
+        return 'codestral';
+    }
+    return 'codellama';
+}
+
+// Returns error message if template is not usable
+export function validateTemplate(template: PromptTemplate): string | null {
+    if (!template.template.includes('{prefix}')) {
+        return 'Template must contain {prefix} placeholder';
+    }
+    if (!template.template.includes('{suffix}')) {
+        return 'Template must contain {suffix} placeholder';
+    }
+    let unknown = template.template.match(/\{(?!prefix\}|suffix\}|filename\})[a-z_]+\}/);
+    if (unknown) {
+        return `Unknown placeholder ${unknown[0]}`;
+    }
+    if (template.stop.some((v) => typeof v !== 'string' || v === '')) {
+        return 'Stop tokens must be non-empty strings';
+    }
+    return null;
+}
+
+export function adaptPrompt(args: { format: PromptFormat, prefix: string, suffix: string, filename?: string }): { prompt: string, stop: string[] } {
 
     // Common non FIM mode
     // if (!args.suffix) {
@@ -10,25 +106,14 @@ export function adaptPrompt(args: { format: ModelFormat, prefix: string, suffix:
     //     };
     // }
 
-    // Starcoder FIM
-    if (args.format === 'deepseek') {
-        return {
-            prompt: `<｜fim▁begin｜>${args.prefix}<｜fim▁hole｜>${args.suffix}<｜fim▁end｜>`,
-            stop: [`<｜fim▁begin｜>`, `<｜fim▁hole｜>`, `<｜fim▁end｜>`, `<END>`]
-        };
-    }
+    let template = typeof args.format === 'string' ? (templates[args.format] ?? templates['codellama']) : args.format;
 
-    // Stable code FIM
-    if (args.format === 'stable-code') {
-        return {
-            prompt: `<fim_prefix>${args.prefix}<fim_suffix>${args.suffix}<fim_middle>`,
-            stop: [`<|endoftext|>`]
-        };
-    }
+    // Replace in a single pass so placeholders inside of the document are kept as is
+    let values: { [key: string]: string } = { prefix: args.prefix, suffix: args.suffix, filename: args.filename ?? '' };
+    let prompt = template.template.replace(/\{(prefix|suffix|filename)\}/g, (_, key: string) => values[key]);
 
-    // Codellama FIM
     return {
-        prompt: `<PRE> ${args.prefix} <SUF> ${args.suffix} <MID>`,
-        stop: [`<END>`, `<EOD>`, `<EOT>`]
+        prompt,
+        stop: template.stop
     };
-}
\ No newline at end of file
+}
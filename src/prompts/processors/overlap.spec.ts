@@ -0,0 +1,52 @@
+import { dedupeSuffix, trimSuffixLines } from './overlap';
+
+describe('dedupeSuffix', () => {
+    it('should keep completion without overlap', () => {
+        expect(dedupeSuffix('a + b;', '\n}')).toEqual({ text: 'a + b;', replaceLength: 0 });
+    });
+
+    it('should trim auto-inserted closing brackets', () => {
+        expect(dedupeSuffix('a, b)', ')\n')).toEqual({ text: 'a, b', replaceLength: 0 });
+        expect(dedupeSuffix('hello")', '")')).toEqual({ text: 'hello', replaceLength: 0 });
+    });
+
+    it('should trim the regenerated rest of the line', () => {
+        expect(dedupeSuffix('user.name = name;', 'name = name;\n')).toEqual({ text: 'user.', replaceLength: 0 });
+    });
+
+    it('should not trim short overlaps of identifiers', () => {
+        expect(dedupeSuffix('a + b', 'b * 2;')).toEqual({ text: 'a + b', replaceLength: 0 });
+    });
+
+    it('should replace closing brackets when completion continues after them', () => {
+        expect(dedupeSuffix('a, b);', ')')).toEqual({ text: 'a, b);', replaceLength: 1 });
+        expect(dedupeSuffix('a) {\n    return a;\n}', ')\n')).toEqual({ text: 'a) {\n    return a;\n}', replaceLength: 1 });
+    });
+
+    it('should keep closing characters that are balanced within the completion', () => {
+        expect(dedupeSuffix('bar()', ')')).toEqual({ text: 'bar()', replaceLength: 0 });
+        expect(dedupeSuffix('len(x)', ')')).toEqual({ text: 'len(x)', replaceLength: 0 });
+        expect(dedupeSuffix('"a"', '"')).toEqual({ text: '"a"', replaceLength: 0 });
+        expect(dedupeSuffix('[1, 2]', ']')).toEqual({ text: '[1, 2]', replaceLength: 0 });
+        expect(dedupeSuffix('bar();', ')')).toEqual({ text: 'bar();', replaceLength: 0 });
+        expect(dedupeSuffix('"(")', ')')).toEqual({ text: '"("', replaceLength: 0 });
+    });
+
+    it('should trim only unmatched closing characters', () => {
+        expect(dedupeSuffix('bar())', ')')).toEqual({ text: 'bar()', replaceLength: 0 });
+        expect(dedupeSuffix('a", f(b))', '")')).toEqual({ text: 'a", f(b))', replaceLength: 2 });
+        expect(dedupeSuffix('bar());', ')')).toEqual({ text: 'bar());', replaceLength: 1 });
+    });
+
+    it('should remove lines that are already in the suffix', () => {
+        expect(dedupeSuffix('return a;\n}', '\n}\n')).toEqual({ text: 'return a;', replaceLength: 0 });
+    });
+});
+
+describe('trimSuffixLines', () => {
+    it('should remove lines that repeat the suffix', () => {
+        expect(trimSuffixLines('return a;\n}', '\n}\n')).toBe('return a;');
+        expect(trimSuffixLines('a();\nb();\nc();', 'b();\nc();')).toBe('a();');
+        expect(trimSuffixLines('return a;', 'return a;')).toBe('return a;');
+    });
+});
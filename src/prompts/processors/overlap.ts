@@ -0,0 +1,129 @@
+
+// Characters that editors auto-insert after the cursor
+const closingOnly = /^[\s)\]}>;,'"`]+$/;
+const pairs: { [key: string]: string } = { ')': '(', ']': '[', '}': '{', '>': '<' };
+const quotes = '\'"`';
+
+// Remove trailing lines of the completion that repeat the beginning of the suffix
+export function trimSuffixLines(completion: string, suffix: string): string {
+    let lines = completion.split('\n');
+    let suffixLines = suffix.split('\n').filter((v) => v.trim() !== '');
+    for (let count = Math.min(lines.length - 1, suffixLines.length); count > 0; count--) {
+        let tail = lines.slice(lines.length - count).map((v) => v.trim());
+        if (tail.every((v, i) => v === suffixLines[i].trim()) && tail.some((v) => v !== '')) {
+            return lines.slice(0, lines.length - count).join('\n').trimEnd();
+        }
+    }
+    return completion;
+}
+
+// Length of the longest end of the completion that is the beginning of the text
+function overlapLength(completion: string, text: string): number {
+    for (let k = Math.min(completion.length, text.length); k > 0; k--) {
+        if (completion.endsWith(text.slice(0, k))) {
+            return k;
+        }
+    }
+    return 0;
+}
+
+//
+// Closing brackets and quotes of the completion that are not opened in the completion itself,
+// so they close something before the cursor. E.g. in 'a, f(b))' only the last ')' is unmatched.
+//
+
+function unmatchedClosers(text: string): Set<number> {
+    let res = new Set<number>();
+
+    // Odd number of quotes means that completion started inside of a string and the first one closes it
+    let start = 0;
+    let first = -1;
+    for (let q of quotes) {
+        let count = text.split(q).length - 1;
+        if (count % 2 === 1 && (first < 0 || text.indexOf(q) < first)) {
+            first = text.indexOf(q);
+        }
+    }
+    if (first >= 0) {
+        res.add(first);
+        start = first + 1;
+    }
+
+    // Track brackets outside of strings
+    let stack: string[] = [];
+    let inString: string | null = null;
+    for (let i = start; i < text.length; i++) {
+        let c = text[i];
+        if (inString) {
+            if (c === '\\') {
+                i++;
+            } else if (c === inString) {
+                inString = null;
+            }
+        } else if (quotes.includes(c)) {
+            inString = c;
+        } else if (c === '(' || c === '[' || c === '{' || c === '<') {
+            stack.push(c);
+        } else if (pairs[c]) {
+            if (stack.length > 0 && stack[stack.length - 1] === pairs[c]) {
+                stack.pop();
+            } else if (c !== '>') { // Comparisons and arrows
+                res.add(i);
+            }
+        }
+    }
+    return res;
+}
+
+// Check if all characters of the text appear in the line in the same order
+function isSubsequence(text: string, line: string): boolean {
+    let i = 0;
+    for (let c of line) {
+        if (i < text.length && c === text[i]) {
+            i++;
+        }
+    }
+    return i === text.length;
+}
+
+//
+// Models often regenerate the code that already follows the cursor: closing brackets that were
+// auto-inserted by the editor, the rest of the line or the next lines. Returns the text to insert
+// and how many characters after the cursor it should replace.
+//
+
+export function dedupeSuffix(completion: string, suffix: string): { text: string, replaceLength: number } {
+
+    // Whole lines that are already in the suffix
+    let text = trimSuffixLines(completion, suffix);
+
+    // Rest of the current line
+    let lineSuffix = suffix.split('\n')[0];
+    if (lineSuffix.trim() === '') {
+        return { text, replaceLength: 0 };
+    }
+
+    // Completion ends with the beginning of the rest of the line, e.g. "a, b)" before ")",
+    // closing characters are trimmed only when they are not balanced within the completion, e.g. not in "f()" before ")"
+    let unmatched = unmatchedClosers(text);
+    let isUnmatched = (from: number) => [...text.slice(from)].every((c, i) => !(pairs[c] || quotes.includes(c)) || unmatched.has(from + i));
+    for (let overlap = overlapLength(text, lineSuffix); overlap > 0; overlap--) {
+        let overlapped = lineSuffix.slice(0, overlap);
+        if (!text.endsWith(overlapped)) {
+            continue;
+        }
+        if ((!closingOnly.test(overlapped) && overlapped.trim().length >= 3) || (closingOnly.test(overlapped) && isUnmatched(text.length - overlap))) {
+            return { text: text.slice(0, text.length - overlap), replaceLength: 0 };
+        }
+    }
+
+    // First line of the completion already has the auto-inserted closing characters, e.g. "a, b);" before ")"
+    let trimmed = lineSuffix.trimEnd();
+    let firstLine = text.split('\n')[0];
+    let closers = [...unmatched].sort((a, b) => a - b).map((i) => text[i]).join('');
+    if (closingOnly.test(trimmed) && isSubsequence(trimmed.replace(/\s/g, ''), firstLine) && isSubsequence(trimmed.replace(/[^)\]}'"`]/g, ''), closers)) {
+        return { text, replaceLength: trimmed.length };
+    }
+
+    return { text, replaceLength: 0 };
+}
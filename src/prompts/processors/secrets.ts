@@ -0,0 +1,84 @@
+// Marks cursor position while prefix and suffix are redacted together, so secrets that span the cursor are found too
+const cursor = '\u0000';
+
+// Names of variables that usually hold secrets
+const sensitiveName = /(secret|token|passw(or)?d|pwd|api_?key|access_?key|private_?key|credential|auth)/i;
+
+// Bits per character
+export function entropy(value: string): number {
+    let counts = new Map<string, number>();
+    for (let c of value) {
+        counts.set(c, (counts.get(c) ?? 0) + 1);
+    }
+    let res = 0;
+    for (let count of counts.values()) {
+        let p = count / value.length;
+        res -= p * Math.log2(p);
+    }
+    return res;
+}
+
+function isSecretValue(name: string, value: string, quoted: boolean): boolean {
+
+    // Unquoted values are often references to other variables, e.g. "token = process.env.TOKEN"
+    if (!quoted && (!/\d/.test(value) || !/[a-z]/i.test(value))) {
+        return false;
+    }
+    if (sensitiveName.test(name.replace(/-/g, '_'))) {
+        return value.length >= 8 && entropy(value) >= 3;
+    }
+    return value.length >= 20 && entropy(value) >= 4; // Random looking, e.g. base64 encoded keys
+}
+
+// Replace secrets with placeholders, returns number of replaced secrets. With a list of secrets placeholders are numbered
+// and replaced values are collected, so they could be restored in text that repeats the placeholders.
+export function redactSecrets(text: string, secrets?: string[]): { text: string, redactions: number } {
+    let redactions = 0;
+    let redact = (kind: string, matched: string) => {
+        redactions++;
+        if (secrets) {
+            secrets.push(matched.replace(cursor, ''));
+            return `[REDACTED_${kind}_${secrets.length}]` + (matched.includes(cursor) ? cursor : '');
+        }
+        return `[REDACTED_${kind}]` + (matched.includes(cursor) ? cursor : '');
+    };
+
+    // Private keys, unterminated key is redacted up to the end of the text
+    text = text.replace(/-----BEGIN ([A-Z0-9]+ )*PRIVATE KEY( BLOCK)?-----[\s\S]*?(-----END ([A-Z0-9]+ )*PRIVATE KEY( BLOCK)?-----|$)/g, (m) => redact('PRIVATE_KEY', m));
+
+    // Well known token formats
+    text = text.replace(/\b(AKIA|ASIA|ABIA|ACCA)[0-9A-Z]{16}\b/g, (m) => redact('AWS_KEY', m));
+    text = text.replace(/\beyJ[\w-]{5,}\.eyJ[\w-]{5,}\.[\w-]{10,}/g, (m) => redact('JWT', m));
+    text = text.replace(/\b(gh[pousr]_[A-Za-z0-9]{36,}|github_pat_\w{22,}|xox[abprs]-[A-Za-z0-9-]{10,}|sk-[\w-]{20,}|AIza[\w-]{35})/g, (m) => redact('TOKEN', m));
+
+    // Assignments of secret looking values: API_KEY = "...", "password": "...", AWS_SECRET_ACCESS_KEY=... in .env files
+    text = text.replace(/([A-Za-z_][\w.-]*)(["']?\s*[:=]\s*)(["'`]?)([^\s"'`\u0000,;(){}[\]<>]{8,})\3(?![^\s,;)}\]])/g, (m, name: string, assign: string, quote: string, value: string) => {
+        if (!isSecretValue(name, value, quote !== '')) {
+            return m;
+        }
+        return name + assign + quote + redact('SECRET', value) + quote;
+    });
+
+    return { text, redactions };
+}
+
+// Put back secrets collected by redactSecrets, unknown placeholders are kept as is
+export function restoreSecrets(text: string, secrets: string[]): string {
+    return text.replace(/\[REDACTED_[A-Z_]+_(\d+)\]/g, (m, index: string) => secrets[Number(index) - 1] ?? m);
+}
+
+// Redact text around the cursor, secrets are detected in prefix and suffix as a whole
+export function redactPrompt(prefix: string, suffix: string): { prefix: string, suffix: string, redactions: number } {
+    if (prefix.includes(cursor) || suffix.includes(cursor)) { // Unable to mark cursor, redact parts separately
+        let p = redactSecrets(prefix);
+        let s = redactSecrets(suffix);
+        return { prefix: p.text, suffix: s.text, redactions: p.redactions + s.redactions };
+    }
+    let redacted = redactSecrets(prefix + cursor + suffix);
+    let offset = redacted.text.indexOf(cursor);
+    return {
+        prefix: redacted.text.slice(0, offset),
+        suffix: redacted.text.slice(offset + 1),
+        redactions: redacted.redactions
+    };
+}
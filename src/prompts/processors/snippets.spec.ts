@@ -0,0 +1,38 @@
+import { findSnippets, formatSnippets } from './snippets';
+import { languages } from './languages';
+
+describe('findSnippets', () => {
+    it('should pick the most similar window of each file', () => {
+        let res = findSnippets({
+            query: 'let user = await fetchUser(userId);',
+            files: [
+                { path: 'api.ts', content: 'import x from "y";\n\nexport function fetchUser(userId: string) {\n    return get("/users/" + userId);\n}\n\nexport function other() {}' },
+                { path: 'unrelated.ts', content: 'const a = 1;' }
+            ],
+            windowLines: 2,
+            maxTokens: 1000
+        });
+        expect(res.length).toBe(1);
+        expect(res[0].path).toBe('api.ts');
+        expect(res[0].text).toContain('fetchUser(userId: string)');
+    });
+
+    it('should respect the budget', () => {
+        let files = [
+            { path: 'a.ts', content: 'fetchUser(userId)' },
+            { path: 'b.ts', content: 'fetchUser(userId) and a lot of other words that make it long' }
+        ];
+        let res = findSnippets({ query: 'fetchUser(userId)', files, windowLines: 5, maxTokens: 15 });
+        expect(res.map((v) => v.path)).toEqual(['a.ts']);
+    });
+});
+
+describe('formatSnippets', () => {
+    it('should render path annotated comments', () => {
+        expect(formatSnippets([{ path: 'a.py', text: 'x = 1', score: 1 }], languages.python)).toBe('# Compare this snippet from a.py:\n# x = 1\n');
+    });
+
+    it('should skip languages without comments', () => {
+        expect(formatSnippets([{ path: 'a.json', text: '{}', score: 1 }], languages.json)).toBe('');
+    });
+});
@@ -0,0 +1,90 @@
+import { comment } from "./comment";
+import { LanguageDescriptor } from "./languages";
+import { countTokens } from "./tokens";
+
+export type SourceFile = {
+    path: string,
+    content: string
+};
+
+export type Snippet = {
+    path: string,
+    text: string,
+    score: number
+};
+
+// Split text into set of identifier-like tokens
+export function tokenize(src: string): Set<string> {
+    return new Set(src.match(/[A-Za-z_$][A-Za-z0-9_$]*/g) ?? []);
+}
+
+export function similarity(a: Set<string>, b: Set<string>): number {
+    if (a.size === 0 || b.size === 0) {
+        return 0;
+    }
+    let intersection = 0;
+    for (let t of a) {
+        if (b.has(t)) {
+            intersection++;
+        }
+    }
+    return intersection / (a.size + b.size - intersection);
+}
+
+// Find windows of lines in other files that are most similar to the query (usually text around the cursor)
+// and pick best of them that fit into the token budget. Each file contributes at most one snippet.
+export function findSnippets(args: { query: string, files: SourceFile[], windowLines: number, maxTokens: number, measure?: (snippet: Snippet) => number }): Snippet[] {
+    let measure = args.measure ?? ((s: Snippet) => countTokens(s.path + '\n' + s.text));
+    let query = tokenize(args.query);
+
+    // Best window for each file
+    let candidates: Snippet[] = [];
+    for (let file of args.files) {
+        let lines = file.content.split('\n');
+        let step = Math.max(1, Math.floor(args.windowLines / 2));
+        let best: Snippet | null = null;
+        for (let start = 0; start < lines.length; start += step) {
+            let text = lines.slice(start, start + args.windowLines).join('\n');
+            let score = similarity(query, tokenize(text));
+            if (score > 0 && (!best || score > best.score)) {
+                best = { path: file.path, text, score };
+            }
+            if (start + args.windowLines >= lines.length) {
+                break;
+            }
+        }
+        if (best) {
+            candidates.push(best);
+        }
+    }
+
+    // Pick best within the budget
+    candidates.sort((a, b) => b.score - a.score);
+    let res: Snippet[] = [];
+    let used = 0;
+    for (let c of candidates) {
+        let size = measure(c);
+        if (used + size > args.maxTokens) {
+            continue;
+        }
+        used += size;
+        res.push(c);
+    }
+    return res;
+}
+
+// Render snippets as comment blocks annotated with their path
+export function formatSnippets(snippets: Snippet[], language: LanguageDescriptor): string {
+    let res = '';
+    for (let s of snippets) {
+        let header = comment('Compare this snippet from ' + s.path + ':', language);
+        if (!header) {
+            return '';
+        }
+        res += header + '\n';
+        for (let line of s.text.split('\n')) {
+            res += comment(line, language) + '\n';
+        }
+    }
+    return res;
+}
@@ -0,0 +1,81 @@
+import type Parser from 'web-tree-sitter';
+import { loadParser } from '../../modules/treeSitter';
+import { syntaxLimit } from './syntax';
+
+function limited(parser: Parser, prefix: string, completion: string, suffix: string, block: boolean = false) {
+    let limit = syntaxLimit(parser, prefix, completion, suffix, block);
+    return limit === null ? null : completion.slice(0, limit);
+}
+
+describe('syntaxLimit', () => {
+    let typescript: Parser;
+    let python: Parser;
+    let ruby: Parser;
+    beforeAll(async () => {
+        typescript = (await loadParser('typescript'))!;
+        python = (await loadParser('python'))!;
+        ruby = (await loadParser('ruby'))!;
+    });
+
+    it('should stop before closing of the current block', () => {
+        let prefix = 'function sum(a: number, b: number) {\n    ';
+        expect(limited(typescript, prefix, 'let res = a + b;\n    return res;\n}\n\nfunction', '\n}\n')).toBe('let res = a + b;\n    return res;');
+    });
+
+    it('should keep closing of the block if suffix does not have it', () => {
+        let prefix = 'function sum(a: number, b: number) {\n    ';
+        expect(limited(typescript, prefix, 'return a + b;\n}\n', '')).toBe('return a + b;\n}');
+    });
+
+    it('should stop after the current statement', () => {
+        expect(limited(typescript, 'const value = compute(', 'a, b);\nconst other = 1;\n', '')).toBe('a, b);');
+    });
+
+    it('should ignore brackets in strings', () => {
+        let prefix = 'function f() {\n    ';
+        expect(limited(typescript, prefix, 'log("}");\n', '\n}')).toBeNull();
+    });
+
+    it('should stop after the block started at the cursor', () => {
+        let prefix = 'function f(a: boolean) {\n    ';
+        expect(limited(typescript, prefix, 'if (a) {\n        return 1;\n    }\n    return 2;\n', '\n}')).toBe('if (a) {\n        return 1;\n    }');
+    });
+
+    it('should use indentation in python', () => {
+        let prefix = 'def f(a):\n    ';
+        expect(limited(python, prefix, 'if a:\n        return 1\n', '')).toBeNull();
+        expect(limited(python, prefix, 'if a:\n        return 1\n    return 2\n', '')).toBe('if a:\n        return 1');
+        expect(limited(python, prefix, 'return 1\n\nprint(f(1))\n', '')).toBe('return 1');
+    });
+
+    it('should stop at end keyword in ruby', () => {
+        let prefix = 'def sum(a, b)\n  ';
+        expect(limited(ruby, prefix, 'res = a + b\n  res\nend\n\ndef other\n', '\nend\n')).toBe('res = a + b\n  res');
+        expect(limited(ruby, prefix, 'a + b\nend\n\ndef other\n', '')).toBe('a + b\nend');
+        expect(limited(ruby, prefix, 'if a > b\n    a\n  else\n    b\n  end\n  puts a\n', '\nend\n')).toBe('if a > b\n    a\n  else\n    b\n  end');
+    });
+
+    describe('block mode', () => {
+        it('should keep going until the enclosing block closes', () => {
+            let prefix = 'function f(a: boolean) {\n    ';
+            let completion = 'if (a) {\n        return 1;\n    }\n    let b = compute(\n        a);\n    return b;\n}\n\nfunction g';
+            expect(limited(typescript, prefix, completion, '\n}\n', true)).toBe('if (a) {\n        return 1;\n    }\n    let b = compute(\n        a);\n    return b;');
+            expect(limited(typescript, prefix, 'return 1;\n', '\n}\n', true)).toBeNull();
+        });
+
+        it('should finish the call open at the cursor within the block', () => {
+            let prefix = 'function f() {\n    let v = compute(';
+            expect(limited(typescript, prefix, 'a, b);\n    return v;\n}\n', '\n}\n', true)).toBe('a, b);\n    return v;');
+        });
+
+        it('should cut as usual outside of blocks', () => {
+            expect(limited(typescript, 'const value = compute(', 'a, b);\nconst other = 1;\n', '', true)).toBe('a, b);');
+            expect(limited(typescript, '', 'function f() {\n    return 1;\n}\nfunction g() {\n', '', true)).toBe('function f() {\n    return 1;\n}');
+        });
+
+        it('should use indentation in python', () => {
+            let prefix = 'def f(a):\n    b = a + 1\n    ';
+            expect(limited(python, prefix, 'c = b * 2\n    return c\n\ndef g():\n', '', true)).toBe('c = b * 2\n    return c');
+        });
+    });
+});
@@ -0,0 +1,144 @@
+import type Parser from 'web-tree-sitter';
+
+type Node = Parser.SyntaxNode;
+
+function lineEnd(src: string, index: number) {
+    let res = src.indexOf('\n', index);
+    return res < 0 ? src.length : res;
+}
+
+function lineStart(src: string, index: number) {
+    return src.lastIndexOf('\n', index - 1) + 1;
+}
+
+// Node and its parents except the root
+function ancestors(node: Node): Node[] {
+    let res: Node[] = [];
+    let current: Node | null = node;
+    while (current && current.parent) {
+        res.push(current);
+        current = current.parent;
+    }
+    return res;
+}
+
+// Node is finished either by its closing token (bracket, quote, `end`, `;`) or by anything that follows it (indentation based blocks)
+function closingToken(node: Node): Node | null {
+    let last = node.lastChild;
+    if (last && !last.isNamed() && !last.isMissing() && last.endIndex === node.endIndex) {
+        return last;
+    }
+    return null;
+}
+
+function isFinished(node: Node, doc: string): boolean {
+    return !!closingToken(node) || doc.slice(node.endIndex).trim() !== '';
+}
+
+//
+// Find where the completion should be cut based on the syntax tree of the prefix and the completion.
+// Returns the length of completion to keep or null if generation should continue.
+//
+// * If a block that was open at the cursor gets closed on its own line (e.g. "}" or "end"), the completion is cut
+//   before that line when the suffix already contains the same closing token and after it otherwise.
+// * If a statement or expression that started before the cursor is finished, the completion is cut at the end of its line.
+// * If a multiline statement started at the cursor (e.g. "if" or function) is finished, the completion is cut at the end of its line.
+//
+// In block mode statements on the cursor line don't stop the completion, it continues until the enclosing block
+// closes. Completion outside of any block is cut as usual.
+//
+
+export function syntaxLimit(parser: Parser, prefix: string, completion: string, suffix: string, block: boolean = false): number | null {
+    let doc = prefix + completion;
+    let cursor = prefix.length;
+    let start = cursor;
+    while (start < doc.length && doc[start].trim() === '') {
+        start++;
+    }
+    if (start >= doc.length) {
+        return null;
+    }
+
+    let tree = parser.parse(doc);
+    try {
+        let cursorRow = prefix.split('\n').length - 1;
+        let cut = block ? blockCut(tree, doc, cursor, start, cursorRow, suffix) : undefined;
+        if (cut === undefined) {
+            cut = statementCut(tree, doc, cursor, start, suffix);
+        }
+        if (cut === null || cut >= doc.length) {
+            return null;
+        }
+        return cut - cursor;
+    } finally {
+        tree.delete();
+    }
+}
+
+// Nodes that were open at the cursor, innermost first
+function openAt(tree: Parser.Tree, cursor: number, start: number): Node[] {
+    return ancestors(tree.rootNode.descendantForIndex(start)).filter((node) => {
+        return node.type !== 'ERROR' && !node.isMissing() && node.startIndex < cursor && node.endIndex > cursor && !node.hasError();
+    });
+}
+
+function closeCut(node: Node, doc: string, cursor: number, suffix: string): number {
+    let closing = closingToken(node);
+    if (closing && closing.startIndex >= cursor && doc.slice(lineStart(doc, closing.startIndex), closing.startIndex).trim() === '') {
+
+        // Block is closed on its own line
+        if (suffix.trimStart().startsWith(closing.text)) {
+            let cut = Math.max(cursor, lineStart(doc, closing.startIndex));
+            if (cut > cursor && doc[cut - 1] === '\n') {
+                cut--;
+            }
+            return cut;
+        } else {
+            return lineEnd(doc, closing.endIndex);
+        }
+    }
+    return lineEnd(doc, node.endIndex);
+}
+
+// Cut once enclosing block is closed, undefined if there is no enclosing block
+function blockCut(tree: Parser.Tree, doc: string, cursor: number, start: number, cursorRow: number, suffix: string): number | null | undefined {
+    for (let node of openAt(tree, cursor, start)) {
+        let finished = isFinished(node, doc);
+        if (finished && node.endPosition.row <= cursorRow) { // Statement on the cursor line
+            continue;
+        }
+        if (!finished) {
+            return null;
+        }
+        return closeCut(node, doc, cursor, suffix);
+    }
+    return undefined;
+}
+
+function statementCut(tree: Parser.Tree, doc: string, cursor: number, start: number, suffix: string): number | null {
+    let cut: number | null = null;
+
+    // Constructs that were open at the cursor
+    for (let node of openAt(tree, cursor, start)) {
+        if (isFinished(node, doc)) {
+            cut = closeCut(node, doc, cursor, suffix);
+            break;
+        }
+    }
+
+    // Multiline statement that started at the cursor
+    for (let node of ancestors(tree.rootNode.descendantForIndex(start))) {
+        if (node.startIndex < start) {
+            break;
+        }
+        if (node.startPosition.row === node.endPosition.row) {
+            continue;
+        }
+        if (node.type !== 'ERROR' && !node.hasError() && isFinished(node, doc)) {
+            let end = lineEnd(doc, node.endIndex);
+            cut = cut === null ? end : Math.min(cut, end);
+        }
+        break;
+    }
+    return cut;
+}
@@ -0,0 +1,18 @@
+//
+// Approximate tokenizer. Real tokenizers are model-specific and too heavy to ship, but for budgeting
+// it is enough to be close: BPE vocabularies of code models usually take ~4 characters of a word per
+// token, one token per punctuation symbol or digit and merge runs of indentation.
+//
+
+export function countTokens(src: string): number {
+    let res = 0;
+    for (let m of src.matchAll(/[A-Za-z_]+|\s+|[^A-Za-z_\s]/g)) {
+        let t = m[0];
+        if (/^\s/.test(t)) {
+            res += Math.floor(t.length / 4) + (t.includes('\n') ? 1 : 0);
+        } else {
+            res += Math.ceil(t.length / 4);
+        }
+    }
+    return res;
+}
@@ -0,0 +1,44 @@
+import { truncatePrompt } from './truncate';
+import { countTokens } from './tokens';
+
+function lines(prefix: string, count: number) {
+    let res: string[] = [];
+    for (let i = 0; i < count; i++) {
+        res.push(`${prefix}${i} = compute(${i});`);
+    }
+    return res.join('\n');
+}
+
+describe('truncatePrompt', () => {
+    it('should keep prompt that fits', () => {
+        expect(truncatePrompt({ prefix: 'let a = ', suffix: ';\n', promptBudget: 100, prefixRatio: 0.75 })).toEqual({ prefix: 'let a = ', suffix: ';\n' });
+    });
+
+    it('should keep text nearest to the cursor at line boundaries', () => {
+        let prefix = lines('before', 100) + '\nlet x = ';
+        let suffix = ';\n' + lines('after', 100);
+        let res = truncatePrompt({ prefix, suffix, promptBudget: 200, prefixRatio: 0.75 });
+        expect(prefix.endsWith(res.prefix)).toBe(true);
+        expect(suffix.startsWith(res.suffix)).toBe(true);
+        expect(res.prefix.endsWith('before99 = compute(99);\nlet x = ')).toBe(true);
+        expect(res.prefix.startsWith('before')).toBe(true);
+        expect(res.suffix.endsWith(');')).toBe(true);
+        expect(countTokens(res.prefix)).toBeLessThanOrEqual(150);
+        expect(countTokens(res.suffix)).toBeLessThanOrEqual(50);
+        expect(countTokens(res.prefix)).toBeGreaterThan(100);
+    });
+
+    it('should give unused suffix budget to prefix', () => {
+        let prefix = lines('before', 100);
+        let res = truncatePrompt({ prefix, suffix: '\n', promptBudget: 200, prefixRatio: 0.5 });
+        expect(countTokens(res.prefix)).toBeGreaterThan(150);
+        expect(res.suffix).toBe('\n');
+    });
+
+    it('should cut the cursor line if it is too long', () => {
+        let prefix = 'a'.repeat(1000);
+        let res = truncatePrompt({ prefix, suffix: '', promptBudget: 10, prefixRatio: 0.75 });
+        expect(res.prefix.length).toBeGreaterThan(0);
+        expect(countTokens(res.prefix)).toBeLessThanOrEqual(10);
+    });
+});
@@ -0,0 +1,86 @@
+import { countTokens } from "./tokens";
+
+// Keep the end of the text that fits into the budget, cutting at line boundaries
+function keepEnd(src: string, maxTokens: number): string {
+    let lines = src.split('\n');
+    let res = lines[lines.length - 1];
+    let used = countTokens(res);
+
+    // Line with the cursor is always kept, partially if it is too long
+    if (used > maxTokens) {
+        return cutLine(res, maxTokens, true);
+    }
+    for (let i = lines.length - 2; i >= 0; i--) {
+        let line = lines[i] + '\n';
+        used += countTokens(line);
+        if (used > maxTokens) {
+            break;
+        }
+        res = line + res;
+    }
+    return res;
+}
+
+// Keep the start of the text that fits into the budget, cutting at line boundaries
+function keepStart(src: string, maxTokens: number): string {
+    let lines = src.split('\n');
+    let res = lines[0];
+    let used = countTokens(res);
+
+    // Line with the cursor is always kept, partially if it is too long
+    if (used > maxTokens) {
+        return cutLine(res, maxTokens, false);
+    }
+    for (let i = 1; i < lines.length; i++) {
+        let line = '\n' + lines[i];
+        used += countTokens(line);
+        if (used > maxTokens) {
+            break;
+        }
+        res = res + line;
+    }
+    return res;
+}
+
+function cutLine(line: string, maxTokens: number, fromStart: boolean): string {
+    let length = line.length;
+    while (length > 0) {
+        let part = fromStart ? line.slice(line.length - length) : line.slice(0, length);
+        if (countTokens(part) <= maxTokens) {
+            return part;
+        }
+        length = Math.floor(length * 0.9);
+    }
+    return '';
+}
+
+//
+// Fit prefix and suffix into the token budget keeping the text nearest to the cursor.
+// Budget is split between prefix and suffix by ratio, but unused part of one side is given to another.
+//
+
+export function truncatePrompt(args: { prefix: string, suffix: string, promptBudget: number, prefixRatio: number }): { prefix: string, suffix: string } {
+    let prefixTokens = countTokens(args.prefix);
+    let suffixTokens = countTokens(args.suffix);
+    let budget = Math.max(0, args.promptBudget);
+    if (prefixTokens + suffixTokens <= budget) {
+        return { prefix: args.prefix, suffix: args.suffix };
+    }
+
+    // Split budget
+    let ratio = Math.min(1, Math.max(0, args.prefixRatio));
+    let prefixBudget = Math.floor(budget * ratio);
+    let suffixBudget = budget - prefixBudget;
+    if (suffixTokens < suffixBudget) {
+        prefixBudget = budget - suffixTokens;
+        suffixBudget = suffixTokens;
+    } else if (prefixTokens < prefixBudget) {
+        suffixBudget = budget - prefixTokens;
+        prefixBudget = prefixTokens;
+    }
+
+    return {
+        prefix: prefixTokens <= prefixBudget ? args.prefix : keepEnd(args.prefix, prefixBudget),
+        suffix: suffixTokens <= suffixBudget ? args.suffix : keepStart(args.suffix, suffixBudget)
+    };
+}
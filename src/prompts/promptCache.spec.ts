@@ -0,0 +1,66 @@
+import { configurePromptCache, exportPromptCache, getFromPromptCache, importPromptCache, promptCacheScope, retainPromptCache, setPromptToCache } from './promptCache';
+
+describe('promptCache', () => {
+    const scope = promptCacheScope({ endpoint: 'http://127.0.0.1:11434', modelName: 'stable-code:3b-code-q4_0', modelFormat: 'stable-code' });
+    const other = promptCacheScope({ endpoint: 'http://127.0.0.1:11434', modelName: 'codellama:7b-code-q4_K_M', modelFormat: 'codellama' });
+    beforeEach(() => {
+        configurePromptCache({ maxEntries: 0, maxBytes: 0 });
+        configurePromptCache({ maxEntries: 3, maxBytes: 1024 * 1024 });
+    });
+
+    it('should hit on normalized prompt', () => {
+        setPromptToCache({ scope, prefix: 'let a =  ', suffix: ';\n', value: ' 1' });
+        expect(getFromPromptCache({ scope, prefix: 'let a = ', suffix: '; ', })).toBe(' 1');
+        expect(getFromPromptCache({ scope, prefix: 'let b = ', suffix: ';\n' })).toBeUndefined();
+    });
+
+    it('should evict least recently used entries', () => {
+        setPromptToCache({ scope, prefix: 'a', suffix: '', value: '1' });
+        setPromptToCache({ scope, prefix: 'b', suffix: '', value: '2' });
+        setPromptToCache({ scope, prefix: 'c', suffix: '', value: '3' });
+        expect(getFromPromptCache({ scope, prefix: 'a', suffix: '' })).toBe('1');
+        setPromptToCache({ scope, prefix: 'd', suffix: '', value: '4' });
+        expect(getFromPromptCache({ scope, prefix: 'b', suffix: '' })).toBeUndefined();
+        expect(getFromPromptCache({ scope, prefix: 'a', suffix: '' })).toBe('1');
+    });
+
+    it('should evict entries over the size limit', () => {
+        configurePromptCache({ maxEntries: 3, maxBytes: 500 });
+        setPromptToCache({ scope, prefix: 'a', suffix: '', value: 'x'.repeat(100) });
+        setPromptToCache({ scope, prefix: 'b', suffix: '', value: 'x'.repeat(100) });
+        expect(getFromPromptCache({ scope, prefix: 'a', suffix: '' })).toBeUndefined();
+        expect(getFromPromptCache({ scope, prefix: 'b', suffix: '' })).toBe('x'.repeat(100));
+    });
+
+    it('should serve the rest of completion that user typed through', () => {
+        setPromptToCache({ scope, prefix: 'function sum(a, b) {\n    ', suffix: '\n}', value: 'return a + b;' });
+        expect(getFromPromptCache({ scope, prefix: 'function sum(a, b) {\n    retu', suffix: '\n}' })).toBe('rn a + b;');
+        expect(getFromPromptCache({ scope, prefix: 'function sum(a, b) {\n    rett', suffix: '\n}' })).toBeUndefined();
+        expect(getFromPromptCache({ scope, prefix: 'function sum(a, b) {\n    retu', suffix: '\n}\n' + 'x' })).toBeUndefined();
+    });
+
+    it('should restore from snapshot', () => {
+        setPromptToCache({ scope, prefix: 'a', suffix: 'b', value: 'c' });
+        let snapshot = JSON.parse(JSON.stringify(exportPromptCache()));
+        configurePromptCache({ maxEntries: 0, maxBytes: 0 });
+        configurePromptCache({ maxEntries: 3, maxBytes: 1024 * 1024 });
+        expect(getFromPromptCache({ scope, prefix: 'a', suffix: 'b' })).toBeUndefined();
+        importPromptCache(snapshot, [scope]);
+        expect(getFromPromptCache({ scope, prefix: 'a', suffix: 'b' })).toBe('c');
+    });
+
+    it('should keep completions of different models apart', () => {
+        setPromptToCache({ scope, prefix: 'function sum(a, b) {\n    ', suffix: '\n}', value: 'return a + b;' });
+        expect(getFromPromptCache({ scope: other, prefix: 'function sum(a, b) {\n    ', suffix: '\n}' })).toBeUndefined();
+        expect(getFromPromptCache({ scope: other, prefix: 'function sum(a, b) {\n    retu', suffix: '\n}' })).toBeUndefined();
+
+        // Completions of models that are no longer configured are dropped and not restored
+        let snapshot = JSON.parse(JSON.stringify(exportPromptCache()));
+        retainPromptCache([other]);
+        expect(getFromPromptCache({ scope, prefix: 'function sum(a, b) {\n    ', suffix: '\n}' })).toBeUndefined();
+        importPromptCache(snapshot, [other]);
+        expect(exportPromptCache().entries).toEqual([]);
+        importPromptCache({ ...snapshot, version: 1 }, [scope]);
+        expect(exportPromptCache().entries).toEqual([]);
+    });
+});
@@ -1,3 +1,6 @@
+import { createHash } from 'crypto';
+import { LRUCache } from '../modules/lru';
+import { PromptFormat } from './processors/models';
 
 // Remove all newlines, double spaces, etc
 function normalizeText(src: string) {
@@ -6,23 +9,117 @@ function normalizeText(src: string) {
     return src;
 }
 
-function extractPromptCacheKey(args: { prefix: string, suffix: string | null }) {
+// Keys are hashed since prompts could be as big as the whole document
+function hash(src: string) {
+    return createHash('sha256').update(src).digest('hex');
+}
+
+// Completions depend on the model, its prompt format and the server that runs it (quantization, options)
+export function promptCacheScope(endpoint: { endpoint: string, modelName: string, modelFormat: PromptFormat }) {
+    return hash(JSON.stringify([endpoint.endpoint, endpoint.modelName, endpoint.modelFormat]));
+}
+
+function extractPromptCacheKey(args: { scope: string, prefix: string, suffix: string | null }) {
     if (args.suffix) {
-        return normalizeText(args.prefix + ' ##CURSOR## ' + args.suffix);
+        return hash(args.scope + ' ' + normalizeText(args.prefix + ' ##CURSOR## ' + args.suffix));
     } else {
-        return normalizeText(args.prefix);
+        return hash(args.scope + ' ' + normalizeText(args.prefix));
     }
 }
 
-// TODO: make it LRU
-let cache: { [key: string]: string | null } = {};
+function extractSuffixKey(suffix: string | null) {
+    return suffix ? hash(normalizeText(suffix)) : '';
+}
+
+// Enough of the prefix to recognize that user continued typing at the same place
+const prefixTailLength = 256;
+
+type CacheEntry = {
+    scope: string,
+    value: string | null,
+    suffixKey: string,
+    prefixTail: string
+};
 
-export function getFromPromptCache(args: { prefix: string, suffix: string | null }): string | undefined | null {
+export type PromptCacheSnapshot = {
+    version: 2,
+    entries: [string, CacheEntry][]
+};
+
+let cache = new LRUCache<CacheEntry>({
+    maxEntries: 1000,
+    maxBytes: 4 * 1024 * 1024,
+    sizeOf: (key, entry) => 2 * (key.length + entry.scope.length + entry.suffixKey.length + entry.prefixTail.length + (entry.value?.length ?? 0))
+});
+
+export function configurePromptCache(args: { maxEntries: number, maxBytes: number }) {
+    cache.resize(args);
+}
+
+export function getFromPromptCache(args: { scope: string, prefix: string, suffix: string | null }): string | undefined | null {
     const key = extractPromptCacheKey(args);
-    return cache[key];
+    let entry = cache.get(key);
+    if (entry) {
+        return entry.value;
+    }
+    return findTypedThrough(args);
 }
 
-export function setPromptToCache(args: { prefix: string, suffix: string | null, value: string | null }) {
+export function setPromptToCache(args: { scope: string, prefix: string, suffix: string | null, value: string | null }) {
     const key = extractPromptCacheKey(args);
-    cache[key] = args.value;
-}
\ No newline at end of file
+    cache.set(key, {
+        scope: args.scope,
+        value: args.value,
+        suffixKey: extractSuffixKey(args.suffix),
+        prefixTail: args.prefix.slice(-prefixTailLength)
+    });
+}
+
+//
+// If user has typed the beginning of a cached completion, the rest of it is still valid and
+// could be served without a new inference call.
+//
+
+function findTypedThrough(args: { scope: string, prefix: string, suffix: string | null }): string | undefined {
+    let suffixKey = extractSuffixKey(args.suffix);
+    for (let [, entry] of cache.recent()) {
+        if (entry.scope !== args.scope || entry.suffixKey !== suffixKey || !entry.value || entry.prefixTail.length === 0) {
+            continue;
+        }
+        let window = args.prefix.slice(-(entry.prefixTail.length + entry.value.length));
+        let index = window.lastIndexOf(entry.prefixTail);
+        if (index < 0) {
+            continue;
+        }
+        let typed = window.slice(index + entry.prefixTail.length);
+        if (typed.length > 0 && typed.length < entry.value.length && entry.value.startsWith(typed)) {
+            return entry.value.slice(typed.length);
+        }
+    }
+    return undefined;
+}
+
+export function exportPromptCache(): PromptCacheSnapshot {
+    return { version: 2, entries: cache.entriesInOrder() };
+}
+
+// Only completions of the configured endpoints are restored, older snapshots don't know their scope and are dropped
+export function importPromptCache(snapshot: PromptCacheSnapshot, scopes: string[]) {
+    if (snapshot.version !== 2 || !Array.isArray(snapshot.entries)) {
+        return;
+    }
+    for (let [key, entry] of snapshot.entries) {
+        if (scopes.includes(entry.scope)) {
+            cache.set(key, entry);
+        }
+    }
+}
+
+// Drop completions of endpoints and models that are no longer configured
+export function retainPromptCache(scopes: string[]) {
+    for (let [key, entry] of cache.entriesInOrder()) {
+        if (!scopes.includes(entry.scope)) {
+            cache.delete(key);
+        }
+    }
+}
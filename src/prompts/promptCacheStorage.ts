@@ -0,0 +1,38 @@
+import vscode from 'vscode';
+import { info, warn } from '../modules/log';
+import { PromptCacheSnapshot, exportPromptCache, importPromptCache } from './promptCache';
+
+function cacheFile(storageUri: vscode.Uri) {
+    return vscode.Uri.joinPath(storageUri, 'prompt-cache.json');
+}
+
+export async function loadPromptCache(storageUri: vscode.Uri, scopes: string[]) {
+    try {
+        let data = await vscode.workspace.fs.readFile(cacheFile(storageUri));
+        let snapshot = JSON.parse(new TextDecoder().decode(data)) as PromptCacheSnapshot;
+        importPromptCache(snapshot, scopes);
+        info(`Loaded ${exportPromptCache().entries.length} cached completions.`);
+    } catch (e) {
+        if (!(e instanceof vscode.FileSystemError && e.code === 'FileNotFound')) {
+            warn('Unable to load prompt cache:', e);
+        }
+    }
+}
+
+export async function savePromptCache(storageUri: vscode.Uri) {
+    try {
+        await vscode.workspace.fs.createDirectory(storageUri);
+        let data = new TextEncoder().encode(JSON.stringify(exportPromptCache()));
+        await vscode.workspace.fs.writeFile(cacheFile(storageUri), data);
+    } catch (e) {
+        warn('Unable to save prompt cache:', e);
+    }
+}
+
+export async function deletePromptCache(storageUri: vscode.Uri) {
+    try {
+        await vscode.workspace.fs.delete(cacheFile(storageUri));
+    } catch (e) {
+        // Already deleted
+    }
+}
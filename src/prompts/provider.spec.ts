@@ -0,0 +1,171 @@
+import vscode from 'vscode';
+import { MockOllama } from '../testing/ollamaServer';
+import { CancellationTokenSource, Position, configure, createExtensionContext, createStatusBarItem, openDocument, resetShim, shim, window } from '../testing/vscode';
+import { StatsTracker } from '../stats/tracker';
+import { PromptProvider } from './provider';
+
+const model = 'stable-code:3b-code-q4_0';
+
+describe('PromptProvider', () => {
+    let server: MockOllama;
+    let provider: PromptProvider;
+    let statusbar: ReturnType<typeof createStatusBarItem>;
+    let context: ReturnType<typeof createExtensionContext>;
+    let stats: StatsTracker;
+    beforeEach(async () => {
+        resetShim();
+        server = await new MockOllama({ models: [{ name: model, contextWindow: 4096 }] }).start();
+        configure({
+            'inference.endpoint': server.endpoint,
+            'inference.model': model,
+            'inference.delay': 0,
+            'inference.context.enabled': false
+        });
+        statusbar = createStatusBarItem();
+        context = createExtensionContext();
+        let ctx = context as unknown as vscode.ExtensionContext;
+        stats = new StatsTracker(ctx);
+        provider = new PromptProvider(statusbar as unknown as vscode.StatusBarItem, ctx, stats);
+    });
+    afterEach(async () => {
+        provider.dispose();
+        stats.dispose();
+        await server.close();
+    });
+
+    // Complete at the end of the first line that contains the marker, which is removed from the text
+    async function complete(path: string, text: string, cancel?: (source: CancellationTokenSource) => void, triggerKind = vscode.InlineCompletionTriggerKind.Automatic) {
+        let offset = text.indexOf('|');
+        let document = openDocument({ path, languageId: 'typescript', text: text.replace('|', '') });
+        let position = document.positionAt(offset) as Position;
+        let source = new CancellationTokenSource();
+        cancel?.(source);
+        let items = await provider.provideInlineCompletionItems(
+            document as unknown as vscode.TextDocument,
+            position as unknown as vscode.Position,
+            { triggerKind, selectedCompletionInfo: undefined },
+            source.token as unknown as vscode.CancellationToken
+        ) as vscode.InlineCompletionItem[] | undefined;
+        return items;
+    }
+
+    it('should complete at the cursor', async () => {
+        server.generate = { tokens: ['a', ' +', ' b', ';\n', '}\n', '\nexport'], split: 11 };
+        let items = await complete('/workspace/src/math.ts', 'function add(a: number, b: number) {\n    return |\n}\n');
+        expect(items?.length).toBe(1);
+        expect(items![0].insertText).toBe('a + b;');
+        expect(items![0].command?.command).toBe('llama.acceptCompletion');
+
+        // Prompt is built for the model with the context window reported by the server
+        let generate = server.requests.find((r) => r.path === '/api/generate')!;
+        expect(generate.body.model).toBe(model);
+        expect(generate.body.prompt).toContain('<fim_prefix>');
+        expect(generate.body.prompt).toContain('src/math.ts');
+        expect(server.requests.some((r) => r.path === '/api/show')).toBe(true);
+        expect(statusbar.command).toBe('llama.toggle');
+    });
+
+    it('should send options from settings and model profile', async () => {
+        configure({ 'inference.topP': 0.9, 'inference.keepAlive': '1h', 'inference.modelOptions': { 'stable-code': { num_ctx: 8192, top_k: 20 } } });
+        server.generate = { tokens: ['1;'] };
+        await complete('/workspace/src/options.ts', 'const options = |\n');
+        let generate = server.requests.find((r) => r.path === '/api/generate')!;
+        expect(generate.body.keep_alive).toBe('1h');
+        expect(generate.body.options).toMatchObject({ num_ctx: 8192, top_p: 0.9, top_k: 20 });
+        expect(generate.body.options.repeat_penalty).toBeUndefined();
+        expect(server.requests.some((r) => r.path === '/api/show')).toBe(false);
+    });
+
+    it('should load the model ahead of completions', async () => {
+        await provider.prewarm();
+        let load = server.requests.find((r) => r.path === '/api/generate')!;
+        expect(load.body.prompt).toBeUndefined();
+        expect(load.body.keep_alive).toBe('30m');
+        expect(load.body.model).toBe(model);
+
+        // Models that are not downloaded are not loaded, and loading could be disabled
+        server.requests.length = 0;
+        server.models = [];
+        await provider.prewarm();
+        expect(server.requests.map((r) => r.path)).toEqual(['/api/tags']);
+        server.requests.length = 0;
+        configure({ 'inference.prewarm': false });
+        await provider.prewarm();
+        expect(server.requests.length).toBe(0);
+    });
+
+    it('should download missing model when user agrees', async () => {
+        server.models = [];
+        server.generate = { tokens: ['"world";'] };
+        shim.answers.push('Yes');
+        let items = await complete('/workspace/src/hello.ts', 'const hello = |\n');
+        expect(items![0].insertText).toBe('"world";');
+        expect(shim.messages[0].items).toEqual(['Yes', 'No']);
+        expect(shim.progress[0].title).toBe(`Downloading ${model}`);
+        expect(server.requests.map((r) => r.path)).toContain('/api/pull');
+    });
+
+    it('should remember when user refuses download', async () => {
+        server.models = [];
+        shim.answers.push('No');
+        expect(await complete('/workspace/src/refuse.ts', 'const refused = |\n')).toBeUndefined();
+        expect(context.globalState.get('llama-coder-download-ignored')).toBe(model);
+        expect(server.requests.map((r) => r.path)).not.toContain('/api/pull');
+    });
+
+    it('should report auth failures in the status bar', async () => {
+        server.bearerToken = 'secret';
+        configure({ 'inference.bearerToken': 'wrong' });
+        expect(await complete('/workspace/src/auth.ts', 'const auth = |\n')).toBeUndefined();
+        expect(provider.monitor.health.state).toBe('error');
+        expect(statusbar.command).toBe('llama.checkConnection');
+        expect(server.requests.every((r) => r.authorization === 'Bearer wrong')).toBe(true);
+    });
+
+    it('should abort slow generation once canceled', async () => {
+        server.generate = { tokens: ['1', '2', '3', '4', '5', '6', '7', '8'], delay: 50 };
+        let items = await complete('/workspace/src/slow.ts', 'const slow = |\n', (source) => {
+            setTimeout(() => source.cancel(), 150);
+        });
+        expect(items).toBeUndefined();
+        await new Promise((resolve) => setTimeout(resolve, 100));
+        expect(server.requests.find((r) => r.path === '/api/generate')!.aborted).toBe(true);
+    });
+
+    it('should abort alternatives once completion at another position is requested', async () => {
+        configure({ 'inference.candidates': 3 });
+        server.generate = (request) => request.options?.seed ? { tokens: Array(40).fill('0'), delay: 50 } : { tokens: ['1;'] };
+        expect((await complete('/workspace/src/first.ts', 'const first = |\n'))![0].insertText).toBe('1;');
+        await new Promise((resolve) => setTimeout(resolve, 100));
+        expect((await complete('/workspace/src/second.ts', 'const second = |\n'))![0].insertText).toBe('1;');
+        await new Promise((resolve) => setTimeout(resolve, 100));
+        let alternatives = server.requests.filter((r) => r.path === '/api/generate' && r.body.options?.seed);
+        expect(alternatives.length).toBe(4);
+        expect(alternatives.slice(0, 2).every((r) => r.aborted)).toBe(true);
+
+        // Canceled request stops its alternatives too
+        await complete('/workspace/src/third.ts', 'const third = |\n', (source) => {
+            setTimeout(() => source.cancel(), 100);
+        });
+        await new Promise((resolve) => setTimeout(resolve, 200));
+        expect(server.requests.filter((r) => r.path === '/api/generate' && r.body.options?.seed).every((r) => r.aborted)).toBe(true);
+    });
+
+    it('should not replay block completions as inline suggestions', async () => {
+        let text = 'function block() {\n    |\n}\n';
+        window.activeTextEditor = {};
+        await provider.completeBlock();
+        server.generate = { tokens: ['let a = 1;\n', '    let b = 2;\n', '}\n'] };
+        expect((await complete('/workspace/src/block.ts', text, undefined, vscode.InlineCompletionTriggerKind.Invoke))![0].insertText).toBe('let a = 1;\n    let b = 2;');
+
+        // Automatic completion at the same place generates again
+        server.generate = { tokens: ['return;\n', '}\n'] };
+        expect((await complete('/workspace/src/block.ts', text))![0].insertText).toBe('return;');
+    });
+
+    it('should never send sensitive files', async () => {
+        server.generate = { tokens: ['x'] };
+        expect(await complete('/workspace/.env', 'TOKEN=|\n')).toBeUndefined();
+        expect(server.requests.length).toBe(0);
+    });
+});
@@ -1,13 +1,31 @@
 import vscode from 'vscode';
 import { info, warn } from '../modules/log';
 import { autocomplete } from './autocomplete';
+import { rankCandidates } from './candidates';
+import { dedupeSuffix } from './processors/overlap';
 import { preparePrompt } from './preparePrompt';
-import { AsyncLock } from '../modules/lock';
-import { getFromPromptCache, setPromptToCache } from './promptCache';
-import { isNotNeeded, isSupported } from './filter';
-import { ollamaCheckModel } from '../modules/ollamaCheckModel';
-import { ollamaDownloadModel } from '../modules/ollamaDownloadModel';
-import { config } from '../config';
+import { RequestScheduler, isAbortError } from '../modules/scheduler';
+import { getFromPromptCache, promptCacheScope, setPromptToCache } from './promptCache';
+import { isLanguageEnabled, isNotNeeded, isSupported } from './filter';
+import { IgnoreFiles, isDenylisted } from './ignoreFiles';
+import { WorkspaceIndex } from './workspaceContext';
+import { EndpointPool, Health, HealthMonitor, createBackend, describeError, formatStats, generationOptions, probeEndpoints, resolveContextWindow } from '../backends';
+import { adaptPrompt } from './processors/models';
+import { countTokens } from './processors/tokens';
+import { Endpoint, config } from '../config';
+import { StatsTracker } from '../stats/tracker';
+import { pullModel } from '../models/pullModel';
+
+type CompletionArgs = Parameters<typeof autocomplete>[0];
+
+type InferenceConfig = ReturnType<typeof config.inferenceFor>;
+
+type Completion = {
+    text: string | null,
+    prepared: Awaited<ReturnType<typeof preparePrompt>>,
+    args: CompletionArgs,
+    endpoint: Endpoint
+};
 
 type Status = {
     icon: string;
@@ -16,15 +34,24 @@ type Status = {
 
 export class PromptProvider implements vscode.InlineCompletionItemProvider {
 
-    lock = new AsyncLock();
+    scheduler = new RequestScheduler();
+    pool = new EndpointPool();
+    ignoreFiles = new IgnoreFiles();
+    workspaceIndex = new WorkspaceIndex();
+    monitor = new HealthMonitor(() => this.probe(), (health) => this.onHealth(health));
     statusbar: vscode.StatusBarItem;
     context: vscode.ExtensionContext;
+    stats: StatsTracker;
     private _paused: boolean = false;
     private _status: Status = { icon: "chip", text: "Llama Coder" };
+    private _served: Endpoint | null = null;
+    private _blockRequested: boolean = false;
+    private _alternatives: { key: string, location: string, candidates: Promise<string[]>, controller: AbortController } | null = null;
 
-    constructor(statusbar: vscode.StatusBarItem, context: vscode.ExtensionContext) {
+    constructor(statusbar: vscode.StatusBarItem, context: vscode.ExtensionContext, stats: StatsTracker) {
         this.statusbar = statusbar;
         this.context = context;
+        this.stats = stats;
     }
     
     public set paused(value: boolean) {
@@ -36,23 +63,121 @@ export class PromptProvider implements vscode.InlineCompletionItemProvider {
         return this._paused;
     }
 
+    // Endpoint that served the last completion, null when there is a single endpoint
+    public get served(): Endpoint | null {
+        return this._served;
+    }
+
     private update(icon?: string, text?: string): void {
         this._status.icon = icon ? icon : this._status.icon;
         this._status.text = text ? text : this._status.text;
 
         let statusText = '';
         let statusTooltip = '';
+        let served = this._served ? ` · ${this._served.name}` : '';
         if (this._paused) {
-            statusText = `$(sync-ignored) ${this._status.text}`;
+            statusText = `$(sync-ignored) ${this._status.text}${served}`;
             statusTooltip = `${this._status.text} (Paused)`;
         } else {
-            statusText = `$(${this._status.icon}) ${this._status.text}`;
+            statusText = `$(${this._status.icon}) ${this._status.text}${served}`;
             statusTooltip = `${this._status.text}`;
         }
+        if (this._served) {
+            statusTooltip += `\nLast completion: ${this._served.modelName} at ${this._served.endpoint}`;
+        }
+
+        // Show connection problems unless paused or busy
+        let health = this.monitor.health;
+        let unhealthy = !this._paused && health.state !== 'online';
+        if (unhealthy && this._status.icon !== 'sync~spin') {
+            statusText = `$(${health.state === 'offline' ? 'debug-disconnect' : 'error'}) ${this._status.text}`;
+            statusTooltip = `${this._status.text} (${health.state === 'offline' ? 'Offline' : 'Error'})\n${health.message}\nClick to retry or open settings`;
+        }
+        this.statusbar.backgroundColor = unhealthy ? new vscode.ThemeColor(health.state === 'offline' ? 'statusBarItem.warningBackground' : 'statusBarItem.errorBackground') : undefined;
+        this.statusbar.command = unhealthy ? 'llama.checkConnection' : 'llama.toggle';
         this.statusbar.text = statusText;
         this.statusbar.tooltip = statusTooltip;
     }
 
+    // Check servers right away and explain the problem if they are still not usable
+    async checkConnection(): Promise<void> {
+        this.update('sync~spin');
+        let health = await this.monitor.check();
+        this.update('chip');
+        if (health.state === 'online') {
+            vscode.window.showInformationMessage('Llama Coder: inference server is online.');
+            return;
+        }
+        let action = await vscode.window.showErrorMessage(`Llama Coder: ${health.message}`, 'Retry', 'Open Settings');
+        if (action === 'Retry') {
+            await this.checkConnection();
+        } else if (action === 'Open Settings') {
+            vscode.commands.executeCommand('llama.openSettings');
+        }
+    }
+
+    // Run a single completion that continues until the enclosing block is closed, works when automatic completions are disabled too
+    async completeBlock(): Promise<void> {
+        if (!vscode.window.activeTextEditor) {
+            return;
+        }
+        this._blockRequested = true;
+        await vscode.commands.executeCommand('editor.action.inlineSuggest.trigger');
+    }
+
+    // Load models into memory before user starts typing, models that are not downloaded are left to completions to offer download
+    async prewarm(): Promise<void> {
+        let inferenceConfig = config.inference;
+        if (!inferenceConfig.prewarm) {
+            return;
+        }
+        await Promise.all(inferenceConfig.endpoints.map(async (endpoint) => {
+            let backend = createBackend({ type: endpoint.backend, endpoint: endpoint.endpoint, bearerToken: endpoint.bearerToken });
+            if (!backend.preload) {
+                return;
+            }
+            let options = generationOptions(inferenceConfig, endpoint.modelName);
+            try {
+                if (!await backend.checkModel(endpoint.modelName)) {
+                    return;
+                }
+                let started = Date.now();
+                await backend.preload(endpoint.modelName, {
+                    contextWindow: options.contextWindow > 0 ? options.contextWindow : undefined,
+                    keepAlive: options.keepAlive ?? undefined
+                });
+                info(`Model ${endpoint.modelName} is loaded on ${endpoint.name} in ${Date.now() - started} ms.`);
+            } catch (e) {
+                warn(`Unable to load model ${endpoint.modelName} on ${endpoint.name}:`, e);
+            }
+        }));
+    }
+
+    dispose() {
+        this.abortAlternatives();
+        this.monitor.dispose();
+        this.ignoreFiles.dispose();
+        this.workspaceIndex.dispose();
+    }
+
+    private probe() {
+        return probeEndpoints(config.inference.endpoints.map((e) => ({
+            name: e.name,
+            model: e.modelName,
+            backend: createBackend({ type: e.backend, endpoint: e.endpoint, bearerToken: e.bearerToken })
+        })));
+    }
+
+    private onHealth(health: Health) {
+        if (health.state === 'online') {
+            info('Inference server is online.');
+            this.pool.reset(); // Do not wait for backoff of failed endpoints
+        } else {
+            warn(`Inference server is ${health.state}: ${health.message}`);
+        }
+        this.update();
+    }
+
     async delayCompletion(delay: number, token: vscode.CancellationToken): Promise<boolean> {
         if (config.inference.delay < 0) {
             return false;
@@ -65,10 +190,24 @@ export class PromptProvider implements vscode.InlineCompletionItemProvider {
     }
 
     async provideInlineCompletionItems(document: vscode.TextDocument, position: vscode.Position, context: vscode.InlineCompletionContext, token: vscode.CancellationToken): Promise<vscode.InlineCompletionItem[] | vscode.InlineCompletionList | undefined | null> {
-        if (!await this.delayCompletion(config.inference.delay, token)) {
+
+        // Alternatives for another position would compete with this request for the server
+        let location = document.uri.toString() + '@' + document.version + ':' + document.offsetAt(position);
+        if (this._alternatives && this._alternatives.location !== location) {
+            this.abortAlternatives();
+        }
+
+        // Block completion is requested explicitly, so there is no need to wait for user to stop typing
+        let block = this._blockRequested && context.triggerKind === vscode.InlineCompletionTriggerKind.Invoke;
+        if (block) {
+            this._blockRequested = false;
+        } else if (!await this.delayCompletion(config.inference.delay, token)) {
             return;
         }
 
+        // Abort HTTP request as soon as VS Code cancels completion
+        let controller = new AbortController();
+        let cancellation = token.onCancellationRequested(() => controller.abort());
         try {
             if (this.paused) {
                 return;
@@ -80,6 +219,22 @@ export class PromptProvider implements vscode.InlineCompletionItemProvider {
                 return;
             }
 
+            // Never send sensitive files
+            if (isDenylisted(document.uri)) {
+                info(`Sensitive document: ${document.uri.toString()} ignored.`);
+                return;
+            }
+
+            // Ignore disabled languages and excluded files
+            if (!isLanguageEnabled(config.enablement.enable, document.languageId)) {
+                info(`Completions are disabled for ${document.languageId} language.`);
+                return;
+            }
+            if (await this.ignoreFiles.isIgnored(document.uri)) {
+                info(`Excluded document: ${document.uri.toString()} ignored.`);
+                return;
+            }
+
             // Ignore if not needed
             if (isNotNeeded(document, position, context)) {
                 info('No inline completion required');
@@ -92,117 +247,278 @@ export class PromptProvider implements vscode.InlineCompletionItemProvider {
                 return;
             }
 
-            // Execute in lock
-            return await this.lock.inLock(async () => {
+            // Execute in scheduler, newer request aborts this one
+            return await this.scheduler.run(async (signal) => {
 
-                // Prepare context
-                let prepared = await preparePrompt(document, position, context);
-                if (token.isCancellationRequested) {
-                    info(`Canceled before AI completion.`);
+                // Config with language specific overrides
+                let inferenceConfig = config.inferenceFor(document);
+                if (block) {
+                    inferenceConfig = { ...inferenceConfig, maxLines: inferenceConfig.blockMaxLines, maxTokens: inferenceConfig.blockMaxTokens };
+                }
+                let endpoints = this.pool.select(inferenceConfig.endpoints, inferenceConfig.routing);
+                if (endpoints.length === 0) {
+                    info(`All endpoints are unavailable, waiting before retry.`);
                     return;
                 }
 
-                // Result
-                let res: string | null = null;
-
-                // Check if in cache
-                let cached = getFromPromptCache({
-                    prefix: prepared.prefix,
-                    suffix: prepared.suffix
-                });
-
-                // If not cached
-                if (cached === undefined) {
+                // Try endpoints in order until one of them completes
+                let completion: Completion | null = null;
+                let failure: Health | null = null;
+                for (let endpoint of endpoints) {
+                    try {
+                        completion = await this.complete(inferenceConfig, block, endpoint, document, position, context, signal);
+                    } catch (e) {
+                        if (isAbortError(e)) {
+                            throw e;
+                        }
+                        this.pool.failure(endpoint);
+                        failure = describeError(e, endpoint.name);
+                        warn(`Endpoint ${endpoint.name} failed, retrying in ${this.pool.backoff(endpoint)} ms:`, e);
+                        continue;
+                    }
+                    failure = null;
+                    break;
+                }
+                if (failure) {
+                    this.monitor.report(failure);
+                }
+                if (!completion) {
+                    return;
+                }
+                let { text: res, prepared, args: completionArgs, endpoint } = completion;
+                let statsLanguage = prepared.language ?? document.languageId;
+                if (signal.aborted) {
+                    info(`Canceled after AI completion.`);
+                    return;
+                }
 
-                    // Config
-                    let inferenceConfig = config.inference;
+                // Nothing to complete
+                if (!res || res.trim() === '') {
+                    return;
+                }
 
-                    // Update status
-                    this.update('sync~spin', 'Llama Coder');
-                    try {
+                // Sample alternatives in background while the first result is shown
+                if (inferenceConfig.candidates > 1 && !block) {
+                    let key = prepared.prefix + '\u0000' + prepared.suffix;
+                    if (!this._alternatives || this._alternatives.key !== key) {
+                        this.abortAlternatives();
+                        let alternatives = new AbortController();
+                        let subscription = token.onCancellationRequested(() => {
+                            if (this._alternatives?.controller === alternatives) {
+                                this.abortAlternatives();
+                            }
+                        });
+                        let candidates = this.sampleAlternatives(completionArgs, inferenceConfig.candidates - 1, alternatives.signal);
+                        candidates.finally(() => subscription.dispose());
+                        this._alternatives = { key, location, candidates, controller: alternatives };
+                    }
 
-                        // Check model exists
-                        let modelExists = await ollamaCheckModel(inferenceConfig.endpoint, inferenceConfig.modelName, inferenceConfig.bearerToken);
-                        if (token.isCancellationRequested) {
+                    // Return all candidates when user explicitly asks for suggestions, e.g. cycles through them
+                    if (context.triggerKind === vscode.InlineCompletionTriggerKind.Invoke) {
+                        let candidates = rankCandidates([res, ...await this._alternatives.candidates]);
+                        if (signal.aborted) {
                             info(`Canceled after AI completion.`);
                             return;
                         }
+                        let items = candidates.map((v) => this.completionItem(v, prepared.suffix, position)).filter((v) => v.insertText !== '');
+                        return this.trackShown(items, document, position, statsLanguage, endpoint.modelName);
+                    }
+                }
 
-                        // Download model if not exists
-                        if (!modelExists) {
+                // Return result
+                let item = this.completionItem(res, prepared.suffix, position);
+                if (item.insertText === '') {
+                    return;
+                }
+                return this.trackShown([item], document, position, statsLanguage, endpoint.modelName);
+            }, controller.signal);
+        } catch (e) {
+            if (isAbortError(e)) {
+                info(`Canceled during AI completion.`);
+            } else {
+                warn('Error during inference:', e);
+            }
+        } finally {
+            cancellation.dispose();
+        }
+    }
 
-                            // Check if user asked to ignore download
-                            if (this.context.globalState.get('llama-coder-download-ignored') === inferenceConfig.modelName) {
-                                info(`Ingoring since user asked to ignore download.`);
-                                return;
-                            }
+    // Complete using a single endpoint, throws when endpoint is not usable so the next one could be tried
+    private async complete(inferenceConfig: InferenceConfig, block: boolean, endpoint: Endpoint, document: vscode.TextDocument, position: vscode.Position, context: vscode.InlineCompletionContext, signal: AbortSignal): Promise<Completion | null> {
+        let backend = createBackend({
+            type: endpoint.backend,
+            endpoint: endpoint.endpoint,
+            bearerToken: endpoint.bearerToken
+        });
 
-                            // Ask for download
-                            let download = await vscode.window.showInformationMessage(`Model ${inferenceConfig.modelName} is not downloaded. Do you want to download it? Answering "No" would require you to manually download model.`, 'Yes', 'No');
-                            if (download === 'No') {
-                                info(`Ingoring since user asked to ignore download.`);
-                                this.context.globalState.update('llama-coder-download-ignored', inferenceConfig.modelName);
-                                return;
-                            }
+        // Prompt budget is what is left in the context window after generated tokens and prompt template
+        let options = generationOptions(inferenceConfig, endpoint.modelName);
+        let contextWindow = await resolveContextWindow(backend, endpoint.modelName, options.contextWindow);
+        let template = adaptPrompt({ prefix: '', suffix: '', format: endpoint.modelFormat }).prompt;
+        let promptBudget = contextWindow - inferenceConfig.maxTokens - countTokens(template);
 
-                            // Perform download
-                            this.update('sync~spin', 'Downloading');
-                            await ollamaDownloadModel(inferenceConfig.endpoint, inferenceConfig.modelName, inferenceConfig.bearerToken);
-                            this.update('sync~spin', 'Llama Coder')
-                        }
-                        if (token.isCancellationRequested) {
-                            info(`Canceled after AI completion.`);
-                            return;
-                        }
+        // Prepare context
+        let prepared = await preparePrompt(document, position, context, promptBudget, this.workspaceIndex);
+        if (signal.aborted) {
+            info(`Canceled before AI completion.`);
+            return null;
+        }
 
-                        // Run AI completion
-                        info(`Running AI completion...`);
-                        res = await autocomplete({
-                            prefix: prepared.prefix,
-                            suffix: prepared.suffix,
-                            endpoint: inferenceConfig.endpoint,
-                            bearerToken: inferenceConfig.bearerToken,
-                            model: inferenceConfig.modelName,
-                            format: inferenceConfig.modelFormat,
-                            maxLines: inferenceConfig.maxLines,
-                            maxTokens: inferenceConfig.maxTokens,
-                            temperature: inferenceConfig.temperature,
-                            canceled: () => token.isCancellationRequested,
-                        });
-                        info(`AI completion completed: ${res}`);
+        // Completion arguments
+        let completionArgs: CompletionArgs = {
+            prefix: prepared.prefix,
+            suffix: prepared.suffix,
+            backend,
+            model: endpoint.modelName,
+            format: endpoint.modelFormat,
+            filename: vscode.workspace.asRelativePath(document.uri),
+            language: prepared.language,
+            maxLines: inferenceConfig.maxLines,
+            maxTokens: inferenceConfig.maxTokens,
+            block,
+            temperature: options.temperature,
+            contextWindow: options.contextWindow > 0 ? options.contextWindow : undefined,
+            topP: options.topP ?? undefined,
+            topK: options.topK ?? undefined,
+            repeatPenalty: options.repeatPenalty ?? undefined,
+            seed: options.seed ?? undefined,
+            keepAlive: options.keepAlive ?? undefined,
+        };
 
-                        // Put to cache
-                        setPromptToCache({
-                            prefix: prepared.prefix,
-                            suffix: prepared.suffix,
-                            value: res
-                        });
-                    } finally {
-                        this.update('chip', 'Llama Coder');
-                    }
-                } else {
-                    if (cached !== null) {
-                        res = cached;
-                    }
+        // Check if in cache, shorter automatic completion could be cached for the same prompt
+        let scope = promptCacheScope(endpoint);
+        let cached = block ? undefined : getFromPromptCache({
+            scope,
+            prefix: prepared.prefix,
+            suffix: prepared.suffix
+        });
+        if (cached !== undefined) {
+            return { text: cached, prepared, args: completionArgs, endpoint };
+        }
+
+        // Update status
+        this.update('sync~spin', 'Llama Coder');
+        try {
+
+            // Check model exists
+            let modelExists = await backend.checkModel(endpoint.modelName);
+            if (signal.aborted) {
+                info(`Canceled after AI completion.`);
+                return null;
+            }
+
+            // Download model if not exists
+            if (!modelExists) {
+
+                // Backend can't download models, maybe next endpoint has it
+                if (!backend.downloadModel) {
+                    throw Error(`Model ${endpoint.modelName} is not available on ${endpoint.name}.`);
                 }
-                if (token.isCancellationRequested) {
-                    info(`Canceled after AI completion.`);
-                    return;
+
+                // Check if user asked to ignore download
+                if (this.context.globalState.get('llama-coder-download-ignored') === endpoint.modelName) {
+                    info(`Ingoring since user asked to ignore download.`);
+                    return null;
                 }
 
-                // Return result
-                if (res && res.trim() !== '') {
-                    return [{
-                        insertText: res,
-                        range: new vscode.Range(position, position),
-                    }];
+                // Ask for download
+                let download = await vscode.window.showInformationMessage(`Model ${endpoint.modelName} is not downloaded on ${endpoint.name}. Do you want to download it? Answering "No" would require you to manually download model.`, 'Yes', 'No');
+                if (download === 'No') {
+                    info(`Ingoring since user asked to ignore download.`);
+                    this.context.globalState.update('llama-coder-download-ignored', endpoint.modelName);
+                    return null;
                 }
 
-                // Nothing to complete
-                return;
+                // Perform download
+                this.update('sync~spin', 'Downloading');
+                let downloaded = await pullModel(backend, endpoint.modelName);
+                this.update('sync~spin', 'Llama Coder');
+                if (!downloaded) {
+                    return null;
+                }
+            }
+            if (signal.aborted) {
+                info(`Canceled after AI completion.`);
+                return null;
+            }
+
+            // Run AI completion
+            info(`Running AI completion on ${endpoint.name}...`);
+            let started = Date.now();
+            let firstTokenMs: number | null = null;
+            let res = await autocomplete({
+                ...completionArgs,
+                onFirstToken: () => firstTokenMs = Date.now() - started,
+                onStats: (stats) => info(`Generation stats of ${endpoint.name}: ${formatStats(stats)}`),
+                signal,
             });
-        } catch (e) {
-            warn('Error during inference:', e);
+            let totalMs = Date.now() - started;
+            info(`AI completion completed: ${res}`);
+            this.stats.latency({ language: prepared.language ?? document.languageId, model: endpoint.modelName, firstTokenMs, totalMs });
+
+            // Time to first token reflects server load better than total time that depends on completion length
+            this.pool.success(endpoint, firstTokenMs ?? totalMs);
+            this.monitor.report({ state: 'online', message: null });
+            this._served = inferenceConfig.endpoints.length > 1 ? endpoint : null;
+
+            // Put to cache, block completion would be replayed as a multi-line inline suggestion otherwise
+            if (!block) {
+                setPromptToCache({
+                    scope,
+                    prefix: prepared.prefix,
+                    suffix: prepared.suffix,
+                    value: res
+                });
+            }
+            return { text: res, prepared, args: completionArgs, endpoint };
+        } finally {
+            this.update('chip', 'Llama Coder');
+        }
+    }
+
+    // Remove text that is already after the cursor or replace it
+    private completionItem(completion: string, suffix: string, position: vscode.Position): vscode.InlineCompletionItem {
+        let deduped = dedupeSuffix(completion, suffix);
+        return {
+            insertText: deduped.text,
+            range: new vscode.Range(position, position.translate(0, deduped.replaceLength)),
+        };
+    }
+
+    // Record shown suggestions, acceptance is reported back through the item command
+    private trackShown(items: vscode.InlineCompletionItem[], document: vscode.TextDocument, position: vscode.Position, language: string, model: string) {
+        if (items.length === 0) {
+            return;
+        }
+        let id = this.stats.shown({ document, position, texts: items.map((v) => v.insertText as string), language, model });
+        items.forEach((item, index) => {
+            item.command = { title: 'Accept', command: 'llama.acceptCompletion', arguments: [id, index] };
+        });
+        return items;
+    }
+
+    // Stop sampling, aborted alternatives are not reused
+    private abortAlternatives() {
+        this._alternatives?.controller.abort();
+        this._alternatives = null;
+    }
+
+    // Sample with different seeds and temperatures, aborted once completion for another position is requested or canceled
+    private sampleAlternatives(args: CompletionArgs, count: number, signal: AbortSignal): Promise<string[]> {
+        let samples: Promise<string>[] = [];
+        for (let i = 1; i <= count; i++) {
+            samples.push(autocomplete({
+                ...args,
+                seed: (args.seed ?? 0) + i,
+                temperature: Math.min(1, args.temperature + 0.2 * i),
+                signal,
+            }).catch((e) => {
+                if (!isAbortError(e)) {
+                    warn('Error during sampling of alternatives:', e);
+                }
+                return '';
+            }));
         }
+        return Promise.all(samples);
     }
-}
\ No newline at end of file
+}
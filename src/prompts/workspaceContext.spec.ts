@@ -0,0 +1,75 @@
+import vscode from 'vscode';
+import { Uri, activateDocument, configure, openDocument, resetShim, shim, workspace } from '../testing/vscode';
+import { WorkspaceIndex, workspaceContext } from './workspaceContext';
+
+describe('WorkspaceIndex', () => {
+    let index: WorkspaceIndex;
+    beforeEach(() => {
+        resetShim();
+        index = new WorkspaceIndex();
+    });
+    afterEach(() => {
+        index.dispose();
+        jest.restoreAllMocks();
+    });
+
+    function open(path: string, text: string = '') {
+        return openDocument({ path, languageId: 'typescript', text });
+    }
+
+    function similar(path: string) {
+        return index.similarNames(open(path) as unknown as vscode.TextDocument);
+    }
+
+    it('should order open tabs by recency', () => {
+        let [a, b, c] = ['a', 'b', 'c'].map((name) => open(`/workspace/src/${name}.ts`));
+        for (let document of [a, b, c, a]) {
+            activateDocument(document);
+        }
+        expect(index.openTabs().map((uri) => uri.path)).toEqual(['/workspace/src/a.ts', '/workspace/src/c.ts', '/workspace/src/b.ts']);
+    });
+
+    it('should look up similar names once', async () => {
+        shim.files.set(Uri.file('/workspace/src/user.spec.ts').toString(), 'describe("user")');
+        shim.files.set(Uri.file('/workspace/lib/user.py').toString(), 'class User: pass');
+        shim.files.set(Uri.file('/workspace/src/order.ts').toString(), 'class Order {}');
+        let findFiles = jest.spyOn(workspace, 'findFiles');
+        expect((await similar('/workspace/src/user.ts')).map((uri) => uri.path).sort()).toEqual(['/workspace/lib/user.py', '/workspace/src/user.spec.ts']);
+        await similar('/workspace/src/user.ts');
+        expect(findFiles).toHaveBeenCalledTimes(1);
+        expect(await similar('/workspace/src/io.ts')).toEqual([]);
+    });
+
+    it('should keep excludes from settings', async () => {
+        configure({ 'files.exclude': { '**/dist/**': true, '**/*.{js,map}': true, '**/build': { when: '$(basename).ts' } } });
+        shim.files.set(Uri.file('/workspace/src/user.spec.ts').toString(), 'describe("user")');
+        shim.files.set(Uri.file('/workspace/dist/user.d.ts').toString(), 'declare class User {}');
+        shim.files.set(Uri.file('/workspace/node_modules/user/user.ts').toString(), 'export class User {}');
+        let findFiles = jest.spyOn(workspace, 'findFiles');
+        expect((await similar('/workspace/src/user.ts')).map((uri) => uri.path)).toEqual(['/workspace/src/user.spec.ts']);
+        expect(findFiles.mock.calls[0][1]).toBe('{**/node_modules/**,**/dist/**}');
+    });
+
+    it('should fit snippets into a share of the prompt budget', async () => {
+        configure({ 'inference.context.maxTokens': 1000 });
+        shim.files.set(Uri.file('/workspace/src/user.spec.ts').toString(), 'let user = await fetchUser(userId);\nexpect(user.name).toBe("test");');
+        let document = open('/workspace/src/user.ts', 'export function fetchUser(userId: string) {\n') as unknown as vscode.TextDocument;
+        let context = (budget: number) => workspaceContext(index, document, 'let user = await fetchUser(userId);\n', '', 'typescript', budget);
+        expect(await context(2000)).toContain('// Compare this snippet from');
+        expect(await context(40)).toBe('');
+    });
+
+    it('should read files that are not open once', async () => {
+        let uri = Uri.file('/workspace/src/user.spec.ts') as unknown as vscode.Uri;
+        shim.files.set(uri.toString(), 'describe("user")');
+        let readFile = jest.spyOn(workspace.fs, 'readFile');
+        expect(await index.read(uri)).toBe('describe("user")');
+        expect(await index.read(uri)).toBe('describe("user")');
+        expect(readFile).toHaveBeenCalledTimes(1);
+
+        // Open documents are read from the editor
+        open('/workspace/src/user.spec.ts', 'describe("edited")');
+        expect(await index.read(uri)).toBe('describe("edited")');
+        expect(await index.read(Uri.file('/workspace/src/missing.ts') as unknown as vscode.Uri)).toBeNull();
+    });
+});
@@ -0,0 +1,209 @@
+import vscode from 'vscode';
+import path from 'path';
+import { Language, languages } from './processors/languages';
+import { detectLanguage } from './processors/detectLanguage';
+import { SourceFile, findSnippets, formatSnippets } from './processors/snippets';
+import { countTokens } from './processors/tokens';
+import { config } from '../config';
+import { isDenylisted } from './ignoreFiles';
+
+const maxFileSize = 256 * 1024;
+const maxFiles = 20;
+const maxRecent = 50;
+const maxCachedFiles = 200;
+const maxSnippetsShare = 0.25; // Of the prompt budget, text around the cursor matters more
+
+// Resolve relative imports (JS/TS/Python) of a document to file uris
+function findImports(document: vscode.TextDocument, language: Language): vscode.Uri[] {
+    let text = document.getText();
+    let dir = path.dirname(document.uri.path);
+    let specifiers: string[] = [];
+    if (language === 'python') {
+        for (let m of text.matchAll(/^\s*from\s+(\.+)([\w.]*)\s+import/gm)) {
+            let up = '../'.repeat(m[1].length - 1);
+            specifiers.push('./' + up + m[2].split('.').join('/'));
+        }
+    } else {
+        for (let m of text.matchAll(/(?:from\s+|require\(\s*|import\(\s*|import\s+)['"](\.{1,2}\/[^'"]+)['"]/g)) {
+            specifiers.push(m[1]);
+        }
+    }
+
+    // Try all extensions of the language since imports usually omit them
+    let res: vscode.Uri[] = [];
+    for (let s of specifiers) {
+        let base = path.posix.join(dir, s);
+        let candidates = [base, ...languages[language].extensions.map((e) => base + e), ...languages[language].extensions.map((e) => base + '/index' + e)];
+        res.push(...candidates.map((c) => document.uri.with({ path: c })));
+    }
+    return res;
+}
+
+function findOpenTabs(): vscode.Uri[] {
+    let res: vscode.Uri[] = [];
+    for (let group of vscode.window.tabGroups.all) {
+        for (let tab of group.tabs) {
+            if (tab.input instanceof vscode.TabInputText) {
+                res.push(tab.input.uri);
+            }
+        }
+    }
+    return res;
+}
+
+// Exclude passed to findFiles replaces files.exclude instead of adding to it, so user's patterns are merged in.
+// Patterns with groups can't be nested into a group and conditional ones can't be checked, both are skipped.
+function excludePattern(): string {
+    let excludes = vscode.workspace.getConfiguration('files').get<{ [glob: string]: unknown }>('exclude') ?? {};
+    let patterns = Object.keys(excludes).filter((p) => excludes[p] === true && !/[{},]/.test(p));
+    return `{${['**/node_modules/**', ...patterns].join(',')}}`;
+}
+
+async function readFile(uri: vscode.Uri): Promise<string | null> {
+    try {
+        let stat = await vscode.workspace.fs.stat(uri);
+        if (stat.type !== vscode.FileType.File || stat.size > maxFileSize) {
+            return null;
+        }
+        return new TextDecoder().decode(await vscode.workspace.fs.readFile(uri));
+    } catch (e) {
+        return null; // Missing import candidate
+    }
+}
+
+//
+// Candidates for the context that are cheap to get on every completion: open tabs ordered by the last time they were active,
+// files with similar names and contents of files that are not open. Lookups and contents are cached until files change.
+//
+
+export class WorkspaceIndex implements vscode.Disposable {
+    private recent: string[] = [];
+    private similar = new Map<string, Promise<vscode.Uri[]>>();
+    private contents = new Map<string, Promise<string | null>>();
+    private disposables: vscode.Disposable[] = [];
+
+    constructor() {
+        let watcher = vscode.workspace.createFileSystemWatcher('**/*');
+        let changed = (uri: vscode.Uri) => this.contents.delete(uri.toString());
+        let renamed = (uri: vscode.Uri) => {
+            this.similar.clear();
+            changed(uri);
+        };
+        this.disposables.push(
+            watcher,
+            watcher.onDidCreate(renamed),
+            watcher.onDidChange(changed),
+            watcher.onDidDelete(renamed),
+            vscode.workspace.onDidChangeWorkspaceFolders(() => this.similar.clear()),
+            vscode.workspace.onDidChangeConfiguration((e) => {
+                if (e.affectsConfiguration('files.exclude')) {
+                    this.similar.clear();
+                }
+            }),
+            vscode.window.onDidChangeActiveTextEditor((editor) => {
+                if (editor) {
+                    this.touch(editor.document.uri);
+                }
+            })
+        );
+        if (vscode.window.activeTextEditor) {
+            this.touch(vscode.window.activeTextEditor.document.uri);
+        }
+    }
+
+    // Most recently active first, tabs that were not active since activation keep their order after them
+    openTabs(): vscode.Uri[] {
+        let rank = (uri: vscode.Uri) => {
+            let index = this.recent.indexOf(uri.toString());
+            return index < 0 ? this.recent.length : index;
+        };
+        return findOpenTabs().sort((a, b) => rank(a) - rank(b));
+    }
+
+    // Files with the same stem, e.g. "user.ts" -> "user.spec.ts", "user.test.ts", "user.py"
+    similarNames(document: vscode.TextDocument): Promise<vscode.Uri[]> {
+        if (document.uri.scheme !== 'file') {
+            return Promise.resolve([]);
+        }
+        let stem = path.basename(document.uri.path).split('.')[0];
+        if (stem.length < 3) {
+            return Promise.resolve([]);
+        }
+        let res = this.similar.get(stem);
+        if (!res) {
+            res = Promise.resolve(vscode.workspace.findFiles(`**/${stem}*.*`, excludePattern(), maxFiles)).catch(() => {
+                this.similar.delete(stem);
+                return [];
+            });
+            this.similar.set(stem, res);
+        }
+        return res;
+    }
+
+    // Text of open documents is always current, other files are read once
+    read(uri: vscode.Uri): Promise<string | null> {
+        let opened = vscode.workspace.textDocuments.find((d) => d.uri.toString() === uri.toString());
+        if (opened) {
+            return Promise.resolve(opened.getText());
+        }
+        let res = this.contents.get(uri.toString());
+        if (!res) {
+            if (this.contents.size >= maxCachedFiles) {
+                this.contents.clear();
+            }
+            res = readFile(uri);
+            this.contents.set(uri.toString(), res);
+        }
+        return res;
+    }
+
+    dispose() {
+        for (let d of this.disposables) {
+            d.dispose();
+        }
+        this.similar.clear();
+        this.contents.clear();
+    }
+
+    private touch(uri: vscode.Uri) {
+        let key = uri.toString();
+        this.recent = [key, ...this.recent.filter((k) => k !== key)].slice(0, maxRecent);
+    }
+}
+
+export async function workspaceContext(index: WorkspaceIndex, document: vscode.TextDocument, prefix: string, suffix: string, language: Language, promptBudget: number): Promise<string> {
+    let contextConfig = config.context;
+
+    // Collect candidates
+    let uris = [...index.openTabs(), ...findImports(document, language), ...await index.similarNames(document)];
+    let seen = new Set<string>([document.uri.toString()]);
+    let files: SourceFile[] = [];
+    for (let uri of uris) {
+        if (files.length >= maxFiles) {
+            break;
+        }
+        if (seen.has(uri.toString())) {
+            continue;
+        }
+        seen.add(uri.toString());
+        if (detectLanguage(uri.fsPath, null) !== language || isDenylisted(uri)) {
+            continue;
+        }
+        let content = await index.read(uri);
+        if (content) {
+            files.push({ path: vscode.workspace.asRelativePath(uri), content });
+        }
+    }
+
+    // Score against the text around the cursor, snippets are measured the way they are rendered into the prompt
+    let query = prefix.split('\n').slice(-contextConfig.snippetLines).join('\n') + '\n' + suffix.split('\n').slice(0, 5).join('\n');
+    let descriptor = languages[language];
+    let snippets = findSnippets({
+        query,
+        files,
+        windowLines: contextConfig.snippetLines,
+        maxTokens: Math.min(contextConfig.maxTokens, Math.floor(promptBudget * maxSnippetsShare)),
+        measure: (snippet) => countTokens(formatSnippets([snippet], descriptor))
+    });
+    return formatSnippets(snippets, descriptor);
+}
@@ -0,0 +1,23 @@
+import { emptyStats, percentile, recordEvent, recordLatency, statsReport } from './statistics';
+
+describe('statistics', () => {
+    it('should aggregate per language and model', () => {
+        let data = emptyStats();
+        recordEvent(data, { language: 'typescript', model: 'a', event: 'shown' });
+        recordEvent(data, { language: 'typescript', model: 'a', event: 'shown' });
+        recordEvent(data, { language: 'typescript', model: 'a', event: 'accepted', chars: 10 });
+        recordEvent(data, { language: 'typescript', model: 'a', event: 'dismissed' });
+        recordEvent(data, { language: 'python', model: 'a', event: 'shown' });
+        recordLatency(data, { language: 'typescript', model: 'a', firstTokenMs: 100, totalMs: 300 });
+        expect(Object.keys(data.entries).length).toBe(2);
+        let report = statsReport(data);
+        expect(report).toContain('* Shown: 3');
+        expect(report).toContain('| typescript | a | 2 | 1 (50%) | 0 | 1 | 10 | 100 ms | 300 ms | 300 ms |');
+    });
+
+    it('should compute percentiles', () => {
+        expect(percentile([], 0.5)).toBeNull();
+        expect(percentile([5, 1, 4, 2, 3], 0.5)).toBe(3);
+        expect(percentile([5, 1, 4, 2, 3], 0.9)).toBe(5);
+    });
+});
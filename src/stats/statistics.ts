@@ -0,0 +1,114 @@
+//
+// Local-only completion statistics. Data is kept in extension storage and is never sent anywhere.
+//
+
+export type Counters = {
+    shown: number,
+    accepted: number,
+    partiallyAccepted: number,
+    dismissed: number,
+    acceptedChars: number,
+    firstTokenMs: number[], // Recent samples only
+    totalMs: number[]
+};
+
+export type StatsData = {
+    version: 1,
+    since: number,
+    entries: { [key: string]: Counters }
+};
+
+export type StatsEvent = 'shown' | 'accepted' | 'partiallyAccepted' | 'dismissed';
+
+const maxSamples = 200;
+
+export function emptyStats(): StatsData {
+    return { version: 1, since: Date.now(), entries: {} };
+}
+
+function entryKey(language: string, model: string) {
+    return language + '\u0000' + model;
+}
+
+function counters(data: StatsData, language: string, model: string): Counters {
+    let key = entryKey(language, model);
+    let res = data.entries[key];
+    if (!res) {
+        res = { shown: 0, accepted: 0, partiallyAccepted: 0, dismissed: 0, acceptedChars: 0, firstTokenMs: [], totalMs: [] };
+        data.entries[key] = res;
+    }
+    return res;
+}
+
+function pushSample(samples: number[], value: number) {
+    samples.push(Math.round(value));
+    if (samples.length > maxSamples) {
+        samples.splice(0, samples.length - maxSamples);
+    }
+}
+
+export function recordEvent(data: StatsData, args: { language: string, model: string, event: StatsEvent, chars?: number }) {
+    let c = counters(data, args.language, args.model);
+    c[args.event]++;
+    if (args.chars) {
+        c.acceptedChars += args.chars;
+    }
+}
+
+export function recordLatency(data: StatsData, args: { language: string, model: string, firstTokenMs: number | null, totalMs: number }) {
+    let c = counters(data, args.language, args.model);
+    if (args.firstTokenMs !== null) {
+        pushSample(c.firstTokenMs, args.firstTokenMs);
+    }
+    pushSample(c.totalMs, args.totalMs);
+}
+
+export function percentile(samples: number[], p: number): number | null {
+    if (samples.length === 0) {
+        return null;
+    }
+    let sorted = [...samples].sort((a, b) => a - b);
+    return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * p))];
+}
+
+function formatMs(value: number | null) {
+    return value === null ? '-' : `${value} ms`;
+}
+
+function formatRate(value: number, total: number) {
+    return total === 0 ? '-' : `${Math.round(value / total * 100)}%`;
+}
+
+export function statsReport(data: StatsData): string {
+    let res = '# Llama Coder Statistics\n\n';
+    res += `Collected since ${new Date(data.since).toLocaleString()}. Statistics are stored locally and never leave this machine.\n\n`;
+
+    let keys = Object.keys(data.entries).sort();
+    if (keys.length === 0) {
+        return res + 'No completions were shown yet.\n';
+    }
+
+    // Totals
+    let total = { shown: 0, accepted: 0, partiallyAccepted: 0, acceptedChars: 0 };
+    for (let key of keys) {
+        let c = data.entries[key];
+        total.shown += c.shown;
+        total.accepted += c.accepted;
+        total.partiallyAccepted += c.partiallyAccepted;
+        total.acceptedChars += c.acceptedChars;
+    }
+    res += `* Shown: ${total.shown}\n`;
+    res += `* Accepted: ${total.accepted} (${formatRate(total.accepted, total.shown)})\n`;
+    res += `* Partially accepted: ${total.partiallyAccepted} (${formatRate(total.partiallyAccepted, total.shown)})\n`;
+    res += `* Characters accepted: ${total.acceptedChars}\n\n`;
+
+    // Per language and model
+    res += '| Language | Model | Shown | Accepted | Partially | Dismissed | Chars | First token p50 | Total p50 | Total p90 |\n';
+    res += '|---|---|---|---|---|---|---|---|---|---|\n';
+    for (let key of keys) {
+        let [language, model] = key.split('\u0000');
+        let c = data.entries[key];
+        res += `| ${language} | ${model} | ${c.shown} | ${c.accepted} (${formatRate(c.accepted, c.shown)}) | ${c.partiallyAccepted} | ${c.dismissed} | ${c.acceptedChars} | ${formatMs(percentile(c.firstTokenMs, 0.5))} | ${formatMs(percentile(c.totalMs, 0.5))} | ${formatMs(percentile(c.totalMs, 0.9))} |\n`;
+    }
+    return res;
+}
@@ -0,0 +1,63 @@
+import vscode from 'vscode';
+import { Position, Range, commands, createExtensionContext, openDocument, resetShim } from '../testing/vscode';
+import { StatsData } from './statistics';
+import { StatsTracker } from './tracker';
+
+describe('StatsTracker', () => {
+    let context: ReturnType<typeof createExtensionContext>;
+    let tracker: StatsTracker;
+    beforeEach(() => {
+        resetShim();
+        jest.useFakeTimers();
+        context = createExtensionContext();
+        tracker = new StatsTracker(context as unknown as vscode.ExtensionContext);
+    });
+    afterEach(() => {
+        tracker.dispose();
+        jest.useRealTimers();
+    });
+
+    function show(text: string) {
+        let document = openDocument({ path: '/workspace/src/index.ts', languageId: 'typescript', text: 'let a = ' });
+        let position = document.positionAt(8);
+        tracker.shown({ document: document as unknown as vscode.TextDocument, position: position as unknown as vscode.Position, texts: [text], language: 'typescript', model: 'test' });
+        return { document, position };
+    }
+
+    function stored() {
+        let data = context.globalState.get<StatsData>('llama-coder-stats');
+        return data ? Object.values(data.entries)[0] : undefined;
+    }
+
+    it('should count partial acceptance by accept commands only', async () => {
+        let { document, position } = show('1 + 2;');
+
+        // Typing the suggestion by hand
+        document.edit(new Range(position, position), '1');
+        show('1 + 2;');
+        tracker.dispose();
+        expect(stored()).toMatchObject({ shown: 2, partiallyAccepted: 0, dismissed: 2 });
+
+        // Accepting word by word
+        tracker = new StatsTracker(context as unknown as vscode.ExtensionContext);
+        ({ document, position } = show('1 + 2;'));
+        commands.registerCommand('editor.action.inlineSuggest.acceptNextWord', () => document.edit(new Range(position, position), '1 '));
+        await tracker.partiallyAccepted('editor.action.inlineSuggest.acceptNextWord');
+        document.edit(new Range(new Position(0, 10), new Position(0, 10)), '+');
+        tracker.dispose();
+        expect(stored()).toMatchObject({ shown: 3, partiallyAccepted: 1, acceptedChars: 2 });
+    });
+
+    it('should write storage in batches and on dispose', () => {
+        let update = jest.spyOn(context.globalState, 'update');
+        show('1;');
+        show('2;');
+        expect(update).not.toHaveBeenCalled();
+        jest.advanceTimersByTime(10000);
+        expect(update).toHaveBeenCalledTimes(1);
+        show('3;');
+        tracker.dispose();
+        expect(update).toHaveBeenCalledTimes(2);
+        expect(stored()).toMatchObject({ shown: 3, dismissed: 3 });
+    });
+});
@@ -0,0 +1,138 @@
+import vscode from 'vscode';
+import { StatsData, emptyStats, recordEvent, recordLatency, statsReport } from './statistics';
+
+const storageKey = 'llama-coder-stats';
+const saveDelay = 10000; // Suggestions are shown on almost every keystroke, storage is written in batches
+
+type Pending = {
+    id: number,
+    uri: string,
+    offset: number,
+    texts: string[],
+    language: string,
+    model: string,
+    inserted: string,
+    accepted: number | null
+};
+
+//
+// Tracks what happens with shown suggestions: full acceptance is reported by the item command,
+// partial acceptance (e.g. word by word) by our wrappers of the editor accept commands.
+// Typing that happens to match a suggestion is not an acceptance.
+//
+
+export class StatsTracker implements vscode.Disposable {
+    private context: vscode.ExtensionContext;
+    private data: StatsData;
+    private pending: Pending | null = null;
+    private nextId = 1;
+    private accepting = false;
+    private saveTimer: NodeJS.Timeout | null = null;
+    private subscription: vscode.Disposable;
+
+    constructor(context: vscode.ExtensionContext) {
+        this.context = context;
+        this.data = context.globalState.get<StatsData>(storageKey) ?? emptyStats();
+        this.subscription = vscode.workspace.onDidChangeTextDocument((e) => this.onChange(e));
+    }
+
+    shown(args: { document: vscode.TextDocument, position: vscode.Position, texts: string[], language: string, model: string }): number {
+        this.finish();
+        let id = this.nextId++;
+        this.pending = {
+            id,
+            uri: args.document.uri.toString(),
+            offset: args.document.offsetAt(args.position),
+            texts: args.texts,
+            language: args.language,
+            model: args.model,
+            inserted: '',
+            accepted: null
+        };
+        recordEvent(this.data, { language: args.language, model: args.model, event: 'shown' });
+        this.save();
+        return id;
+    }
+
+    accepted(id: number, index: number) {
+        if (this.pending && this.pending.id === id) {
+            this.pending.accepted = index;
+            this.finish();
+        }
+    }
+
+    // Runs an editor command that accepts a part of the suggestion, the edit it makes is counted
+    async partiallyAccepted(command: string) {
+        this.accepting = true;
+        try {
+            await vscode.commands.executeCommand(command);
+        } finally {
+            this.accepting = false;
+        }
+    }
+
+    latency(args: { language: string, model: string, firstTokenMs: number | null, totalMs: number }) {
+        recordLatency(this.data, args);
+        this.save();
+    }
+
+    report(): string {
+        return statsReport(this.data);
+    }
+
+    reset() {
+        this.pending = null;
+        this.data = emptyStats();
+        this.flush();
+    }
+
+    dispose() {
+        this.finish();
+        this.flush();
+        this.subscription.dispose();
+    }
+
+    private onChange(e: vscode.TextDocumentChangeEvent) {
+        let pending = this.pending;
+        if (!this.accepting || !pending || e.document.uri.toString() !== pending.uri) {
+            return;
+        }
+        for (let change of e.contentChanges) {
+            let inserted = pending.inserted + change.text;
+            if (change.rangeOffset === pending.offset + pending.inserted.length && pending.texts.some((v) => v.startsWith(inserted))) {
+                pending.inserted = inserted;
+            }
+        }
+    }
+
+    private finish() {
+        let pending = this.pending;
+        if (!pending) {
+            return;
+        }
+        this.pending = null;
+        let args = { language: pending.language, model: pending.model };
+        if (pending.accepted !== null) {
+            recordEvent(this.data, { ...args, event: 'accepted', chars: pending.texts[pending.accepted].length });
+        } else if (pending.inserted.length > 0) {
+            recordEvent(this.data, { ...args, event: 'partiallyAccepted', chars: pending.inserted.length });
+        } else {
+            recordEvent(this.data, { ...args, event: 'dismissed' });
+        }
+        this.save();
+    }
+
+    private save() {
+        if (!this.saveTimer) {
+            this.saveTimer = setTimeout(() => this.flush(), saveDelay);
+        }
+    }
+
+    private flush() {
+        if (this.saveTimer) {
+            clearTimeout(this.saveTimer);
+            this.saveTimer = null;
+        }
+        this.context.globalState.update(storageKey, this.data);
+    }
+}
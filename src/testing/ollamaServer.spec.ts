@@ -0,0 +1,69 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { createBackend } from '../backends';
+import { MockOllama } from './ollamaServer';
+
+async function generate(endpoint: string, prompt: string) {
+    let backend = createBackend({ type: 'ollama', endpoint, bearerToken: '' });
+    let res = '';
+    for await (let tokens of backend.generate({ model: 'test', prompt, stop: [], maxTokens: 10, temperature: 0.2 })) {
+        res += tokens;
+    }
+    return res;
+}
+
+describe('MockOllama', () => {
+    it('should record responses of upstream server for replay', async () => {
+        let upstream = await new MockOllama({ models: [{ name: 'test' }], generate: (r) => ({ tokens: [r.prompt, ' world'], split: 4 }) }).start();
+        let recorder = await new MockOllama({ upstream: upstream.endpoint }).start();
+        try {
+            expect(await generate(recorder.endpoint, 'hello')).toBe('hello world');
+            expect(await createBackend({ type: 'ollama', endpoint: recorder.endpoint, bearerToken: '' }).checkModel('test')).toBe(true);
+        } finally {
+            await recorder.close();
+            await upstream.close();
+        }
+
+        // Fixture file
+        let file = path.join(await fs.mkdtemp(path.join(os.tmpdir(), 'llama-coder-')), 'recording.json');
+        await recorder.save(file);
+        let replay = await new MockOllama({ recording: JSON.parse(await fs.readFile(file, 'utf8')) }).start();
+        try {
+            expect(await generate(replay.endpoint, 'hello')).toBe('hello world');
+            await expect(generate(replay.endpoint, 'bye')).rejects.toThrow();
+        } finally {
+            await replay.close();
+            await fs.rm(path.dirname(file), { recursive: true });
+        }
+    });
+
+    it('should report context window of models', async () => {
+        let server = await new MockOllama({ models: [{ name: 'test', contextWindow: 8192 }, { name: 'plain' }] }).start();
+        try {
+            let backend = createBackend({ type: 'ollama', endpoint: server.endpoint, bearerToken: '' });
+            expect(await backend.contextWindow!('test')).toBe(8192);
+            expect(await backend.contextWindow!('plain')).toBeNull();
+            await expect(backend.contextWindow!('missing')).rejects.toThrow('404');
+        } finally {
+            await server.close();
+        }
+    });
+
+    it('should fail generation the way Ollama does', async () => {
+        let server = await new MockOllama({ models: [{ name: 'test' }] }).start();
+        try {
+            server.generate = { status: 500, error: 'model failed to load' };
+            await expect(generate(server.endpoint, 'a')).rejects.toThrow();
+            server.generate = { tokens: ['a'], error: 'out of memory' };
+            let lines: any[] = [];
+            let res = await fetch(server.endpoint + '/api/generate', { method: 'POST', body: JSON.stringify({ model: 'test', prompt: 'a' }) });
+            for (let line of (await res.text()).trim().split('\n')) {
+                lines.push(JSON.parse(line));
+            }
+            expect(lines.map((l) => l.response ?? l.error)).toEqual(['a', 'out of memory']);
+        } finally {
+            await server.close();
+        }
+    });
+});
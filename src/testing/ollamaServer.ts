@@ -0,0 +1,308 @@
+import * as http from 'http';
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import { AddressInfo } from 'net';
+import { Recording, recordingKey } from '../bench/replay';
+
+export type MockModel = {
+    name: string,
+    contextWindow?: number,
+    size?: number
+};
+
+// How a response body is streamed: pause between chunks and re-chunking into pieces of a fixed byte size,
+// so JSON lines (and multi-byte characters) could be split at arbitrary places
+export type StreamOptions = {
+    delay?: number,
+    split?: number
+};
+
+export type GenerateRequest = {
+    model: string,
+    prompt: string,
+    raw?: boolean,
+    stream?: boolean,
+    keep_alive?: string | number,
+    options?: { [key: string]: any }
+};
+
+export type GenerateScript = StreamOptions & {
+    tokens?: string[],
+    status?: number, // Fail before streaming, e.g. 500 when model fails to load
+    error?: string, // Error line after tokens, the way Ollama reports failures mid-stream
+    disconnect?: boolean, // Drop connection after tokens without finishing the response
+    raw?: string // Written after tokens as is, e.g. a malformed line
+};
+
+export type PullScript = StreamOptions & {
+    layers?: number[],
+    error?: string // Error line after the manifest, model is not added
+};
+
+export type MockRequest = {
+    method: string,
+    path: string,
+    body: any,
+    authorization: string | null,
+    aborted: boolean
+};
+
+export type MockOllamaOptions = {
+    models?: MockModel[],
+    bearerToken?: string,
+    generate?: GenerateScript | ((request: GenerateRequest) => GenerateScript),
+    pull?: PullScript,
+    recording?: Recording,
+    upstream?: string
+};
+
+//
+// In-process Ollama stand-in for tests. Serves /api/tags, /api/show, /api/pull and /api/generate from scripts,
+// replays generated text from a recording or, with an upstream server, proxies requests and records them.
+//
+
+export class MockOllama {
+    models: MockModel[];
+    bearerToken: string | null;
+    generate: GenerateScript | ((request: GenerateRequest) => GenerateScript) | null;
+    pull: PullScript;
+    recording: Recording;
+    upstream: string | null;
+    readonly requests: MockRequest[] = [];
+    private server: http.Server;
+    private port = 0;
+
+    constructor(options: MockOllamaOptions = {}) {
+        this.recording = options.recording ?? { version: 1, responses: {} };
+        this.models = options.models ?? [...new Set(Object.values(this.recording.responses).map((r) => r.model))].map((name) => ({ name }));
+        this.bearerToken = options.bearerToken ?? null;
+        this.generate = options.generate ?? null;
+        this.pull = options.pull ?? {};
+        this.upstream = options.upstream?.replace(/\/+$/, '') ?? null;
+        this.server = http.createServer((req, res) => this.handle(req, res));
+    }
+
+    get endpoint() {
+        return `http://127.0.0.1:${this.port}`;
+    }
+
+    async start() {
+        await new Promise<void>((resolve) => this.server.listen(0, '127.0.0.1', resolve));
+        this.port = (this.server.address() as AddressInfo).port;
+        return this;
+    }
+
+    close() {
+        return new Promise<void>((resolve) => {
+            this.server.closeAllConnections();
+            this.server.close(() => resolve());
+        });
+    }
+
+    // Keep recorded responses as a fixture for replay
+    async save(file: string) {
+        await fs.writeFile(file, JSON.stringify(this.recording, null, 2) + '\n');
+    }
+
+    private handle(req: http.IncomingMessage, res: http.ServerResponse) {
+        let data = '';
+        req.on('data', (chunk) => data += chunk);
+        req.on('end', async () => {
+            let request: MockRequest = {
+                method: req.method!,
+                path: req.url!,
+                body: data ? JSON.parse(data) : null,
+                authorization: req.headers.authorization ?? null,
+                aborted: false
+            };
+            this.requests.push(request);
+            res.on('close', () => request.aborted = !res.writableFinished);
+            try {
+                await this.route(request, res);
+            } catch (e) {
+                res.destroy();
+            }
+        });
+    }
+
+    private async route(request: MockRequest, res: http.ServerResponse) {
+        if (this.upstream) {
+            return await this.proxy(request, res);
+        }
+        if (this.bearerToken !== null && request.authorization !== `Bearer ${this.bearerToken}`) {
+            return json(res, 401, { error: 'unauthorized' });
+        }
+        let route = request.method + ' ' + request.path;
+        if (route === 'GET /api/tags') {
+            return json(res, 200, { models: this.models.map((m) => ({ name: m.name, model: m.name, size: m.size ?? 0, digest: digest(m.name) })) });
+        }
+        if (route === 'POST /api/show') {
+            let model = this.model(request.body.name ?? request.body.model);
+            if (!model) {
+                return json(res, 404, { error: `model '${request.body.name ?? request.body.model}' not found` });
+            }
+            return json(res, 200, { parameters: model.contextWindow ? `num_ctx                        ${model.contextWindow}` : '', details: { format: 'gguf' } });
+        }
+        if (route === 'POST /api/pull') {
+            return await this.pullModel(request.body.name ?? request.body.model, res);
+        }
+        if (route === 'POST /api/generate') {
+            return await this.generateText(request.body as GenerateRequest, res);
+        }
+        return json(res, 404, { error: 'not found' });
+    }
+
+    private async generateText(request: GenerateRequest, res: http.ServerResponse) {
+
+        // Request without a prompt only loads the model
+        if (request.prompt === undefined) {
+            if (!this.model(request.model)) {
+                return json(res, 404, { error: `model '${request.model}' not found, try pulling it first` });
+            }
+            return json(res, 200, { model: request.model, created_at: new Date().toISOString(), response: '', done: true, done_reason: 'load' });
+        }
+
+        // Recorded text is streamed in word-sized chunks
+        let recorded = this.recording.responses[recordingKey(request.model, request.prompt)];
+        let script: GenerateScript;
+        if (recorded) {
+            script = { tokens: recorded.response.match(/\s+|\w+|[^\w\s]/g) ?? [] };
+        } else if (this.generate) {
+            if (!this.model(request.model)) {
+                return json(res, 404, { error: `model '${request.model}' not found, try pulling it first` });
+            }
+            script = typeof this.generate === 'function' ? this.generate(request) : this.generate;
+        } else {
+            return json(res, 404, { error: `no recorded response for the prompt to ${request.model}` });
+        }
+        if (script.status) {
+            return json(res, script.status, { error: script.error ?? 'internal error' });
+        }
+
+        let tokens = script.tokens ?? [];
+        let lines: (object | string)[] = tokens.map((response) => ({ model: request.model, created_at: new Date().toISOString(), response, done: false }));
+        if (script.raw !== undefined) {
+            lines.push(script.raw);
+        }
+        if (script.error) {
+            return await stream(res, [...lines, { error: script.error }], script);
+        }
+        if (script.disconnect) {
+            return await stream(res, lines, script, true);
+        }
+        await stream(res, [...lines, {
+            model: request.model,
+            created_at: new Date().toISOString(),
+            response: '',
+            done: true,
+            done_reason: 'stop',
+            total_duration: 1000000 * (tokens.length + 1),
+            prompt_eval_count: request.prompt.length,
+            eval_count: tokens.length,
+            eval_duration: 1000000 * tokens.length
+        }], script);
+    }
+
+    private async pullModel(name: string, res: http.ServerResponse) {
+        let lines: object[] = [{ status: 'pulling manifest' }];
+        if (this.pull.error) {
+            return await stream(res, [...lines, { error: this.pull.error }], this.pull);
+        }
+
+        // Every layer reports its own progress
+        for (let size of this.pull.layers ?? [1024 * 1024]) {
+            let layer = digest(name + lines.length);
+            lines.push({ status: `pulling ${layer.slice(7, 19)}`, digest: layer, total: size });
+            lines.push({ status: `pulling ${layer.slice(7, 19)}`, digest: layer, total: size, completed: Math.floor(size / 2) });
+            lines.push({ status: `pulling ${layer.slice(7, 19)}`, digest: layer, total: size, completed: size });
+        }
+        lines.push({ status: 'verifying sha256 digest' }, { status: 'writing manifest' }, { status: 'success' });
+        if (!this.model(name)) {
+            this.models.push({ name, size: (this.pull.layers ?? [1024 * 1024]).reduce((a, b) => a + b, 0) });
+        }
+        await stream(res, lines, this.pull);
+    }
+
+    // Forward request as is, text generated by the upstream server is recorded for replay
+    private async proxy(request: MockRequest, res: http.ServerResponse) {
+        let upstream = await fetch(this.upstream + request.path, {
+            method: request.method,
+            body: request.body !== null ? JSON.stringify(request.body) : undefined,
+            headers: request.authorization ? { 'Content-Type': 'application/json', Authorization: request.authorization } : { 'Content-Type': 'application/json' }
+        });
+        res.writeHead(upstream.status, { 'Content-Type': upstream.headers.get('Content-Type') ?? 'application/json' });
+        let record = request.method === 'POST' && request.path === '/api/generate' && upstream.ok;
+        let decoder = new TextDecoder();
+        let pending = '';
+        let response = '';
+        let reader = upstream.body!.getReader();
+        while (true) {
+            let { done, value: chunk } = await reader.read();
+            if (done) {
+                break;
+            }
+            res.write(chunk);
+            if (record) {
+                pending += decoder.decode(chunk, { stream: true });
+                let lines = pending.split('\n');
+                pending = lines.pop()!;
+                for (let line of lines.filter((l) => l.trim() !== '')) {
+                    response += (JSON.parse(line) as { response?: string }).response ?? '';
+                }
+            }
+        }
+        res.end();
+        if (record) {
+            let body = request.body as GenerateRequest;
+            this.recording.responses[recordingKey(body.model, body.prompt)] = { model: body.model, response };
+        }
+    }
+
+    private model(name: string) {
+        return this.models.find((m) => m.name === name);
+    }
+}
+
+function json(res: http.ServerResponse, status: number, body: object) {
+    res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+    res.end(JSON.stringify(body));
+}
+
+// Write NDJSON lines, strings are written as is. Headers are sent right away so the client starts reading before the first chunk.
+async function stream(res: http.ServerResponse, lines: (object | string)[], options: StreamOptions, disconnect: boolean = false) {
+    res.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+    res.flushHeaders();
+    let encoded = lines.map((l) => typeof l === 'string' ? l : JSON.stringify(l) + '\n');
+    let bytes = Buffer.from(encoded.join(''));
+    let chunks: Buffer[] = [];
+    if (options.split) {
+        for (let i = 0; i < bytes.length; i += options.split) {
+            chunks.push(bytes.subarray(i, i + options.split));
+        }
+    } else {
+        let offset = 0;
+        for (let l of encoded) {
+            let length = Buffer.byteLength(l);
+            chunks.push(bytes.subarray(offset, offset + length));
+            offset += length;
+        }
+    }
+    for (let chunk of chunks) {
+        if (options.delay) {
+            await new Promise((resolve) => setTimeout(resolve, options.delay));
+        }
+        if (res.destroyed) { // Client has gone
+            return;
+        }
+        res.write(chunk);
+    }
+    if (disconnect) {
+        res.destroy();
+    } else {
+        res.end();
+    }
+}
+
+function digest(name: string) {
+    return 'sha256:' + crypto.createHash('sha256').update(name).digest('hex');
+}
@@ -0,0 +1,667 @@
+import path from 'path';
+import fs from 'fs';
+
+//
+// Minimal stand-in for the "vscode" module that jest maps imports to. It implements just enough of the API
+// for the completion provider and its dependencies: configuration with package.json defaults, an in-memory
+// file system and documents, and message prompts answered by tests. Everything else is left out on purpose.
+//
+
+// Settings defaults from package.json, keys are full section names like "inference.model"
+const defaults: { [key: string]: any } = {};
+let manifest = JSON.parse(fs.readFileSync(path.join(__dirname, '..', '..', 'package.json'), 'utf8'));
+for (let c of manifest.contributes.configuration) {
+    for (let [key, value] of Object.entries(c.properties as { [key: string]: { default?: any } })) {
+        defaults[key] = value.default;
+    }
+}
+
+// Values
+export class Position {
+    readonly line: number;
+    readonly character: number;
+
+    constructor(line: number, character: number) {
+        this.line = line;
+        this.character = character;
+    }
+
+    translate(lineDelta: number = 0, characterDelta: number = 0) {
+        return new Position(this.line + lineDelta, this.character + characterDelta);
+    }
+
+    with(line: number = this.line, character: number = this.character) {
+        return new Position(line, character);
+    }
+
+    compareTo(other: Position) {
+        return this.line !== other.line ? this.line - other.line : this.character - other.character;
+    }
+
+    isEqual(other: Position) {
+        return this.compareTo(other) === 0;
+    }
+
+    isBefore(other: Position) {
+        return this.compareTo(other) < 0;
+    }
+
+    isAfter(other: Position) {
+        return this.compareTo(other) > 0;
+    }
+}
+
+export class Range {
+    readonly start: Position;
+    readonly end: Position;
+
+    constructor(start: Position, end: Position) {
+        this.start = start;
+        this.end = end;
+    }
+
+    get isEmpty() {
+        return this.start.isEqual(this.end);
+    }
+
+    get isSingleLine() {
+        return this.start.line === this.end.line;
+    }
+}
+
+export class Selection extends Range {
+    readonly anchor: Position;
+    readonly active: Position;
+
+    constructor(anchor: Position, active: Position) {
+        super(anchor.isBefore(active) ? anchor : active, anchor.isBefore(active) ? active : anchor);
+        this.anchor = anchor;
+        this.active = active;
+    }
+}
+
+export class Uri {
+    readonly scheme: string;
+    readonly authority: string;
+    readonly path: string;
+    readonly query: string;
+    readonly fragment: string;
+
+    private constructor(scheme: string, authority: string, path: string, query: string, fragment: string) {
+        this.scheme = scheme;
+        this.authority = authority;
+        this.path = path;
+        this.query = query;
+        this.fragment = fragment;
+    }
+
+    static file(fsPath: string) {
+        return new Uri('file', '', fsPath, '', '');
+    }
+
+    static parse(value: string) {
+        let match = value.match(/^([\w.+-]+):(?:\/\/([^/?#]*))?([^?#]*)(?:\?([^#]*))?(?:#(.*))?$/);
+        if (!match) {
+            throw Error('Invalid uri: ' + value);
+        }
+        return new Uri(match[1], match[2] ?? '', match[3], match[4] ?? '', match[5] ?? '');
+    }
+
+    static joinPath(base: Uri, ...segments: string[]) {
+        return base.with({ path: path.posix.join(base.path, ...segments) });
+    }
+
+    get fsPath() {
+        return this.path;
+    }
+
+    with(change: { scheme?: string, authority?: string, path?: string, query?: string, fragment?: string }) {
+        return new Uri(change.scheme ?? this.scheme, change.authority ?? this.authority, change.path ?? this.path, change.query ?? this.query, change.fragment ?? this.fragment);
+    }
+
+    toString() {
+        return `${this.scheme}://${this.authority}${this.path}${this.query ? '?' + this.query : ''}${this.fragment ? '#' + this.fragment : ''}`;
+    }
+
+    toJSON() {
+        return this.toString();
+    }
+}
+
+export class ThemeColor {
+    readonly id: string;
+
+    constructor(id: string) {
+        this.id = id;
+    }
+}
+
+export class Disposable {
+    private callback: () => void;
+
+    constructor(callback: () => void) {
+        this.callback = callback;
+    }
+
+    static from(...disposables: { dispose(): any }[]) {
+        return new Disposable(() => disposables.forEach((d) => d.dispose()));
+    }
+
+    dispose() {
+        this.callback();
+    }
+}
+
+export class EventEmitter<T> {
+    private listeners = new Set<(e: T) => any>();
+
+    event = (listener: (e: T) => any) => {
+        this.listeners.add(listener);
+        return new Disposable(() => this.listeners.delete(listener));
+    };
+
+    fire(e: T) {
+        for (let l of [...this.listeners]) {
+            l(e);
+        }
+    }
+
+    dispose() {
+        this.listeners.clear();
+    }
+}
+
+export class CancellationTokenSource {
+    private emitter = new EventEmitter<void>();
+    token = {
+        isCancellationRequested: false,
+        onCancellationRequested: this.emitter.event
+    };
+
+    cancel() {
+        if (!this.token.isCancellationRequested) {
+            this.token.isCancellationRequested = true;
+            this.emitter.fire();
+        }
+    }
+
+    dispose() {
+        this.emitter.dispose();
+    }
+}
+
+export class FileSystemError extends Error {
+    readonly code: string;
+
+    constructor(message: string, code: string = 'Unknown') {
+        super(message);
+        this.code = code;
+    }
+
+    static FileNotFound(uri?: Uri | string) {
+        return new FileSystemError(`File not found: ${uri}`, 'FileNotFound');
+    }
+}
+
+export class TabInputText {
+    readonly uri: Uri;
+
+    constructor(uri: Uri) {
+        this.uri = uri;
+    }
+}
+
+export class InlineCompletionItem {
+    insertText: string;
+    range?: Range;
+    command?: { title: string, command: string, arguments?: any[] };
+
+    constructor(insertText: string, range?: Range) {
+        this.insertText = insertText;
+        this.range = range;
+    }
+}
+
+// Enums
+export enum InlineCompletionTriggerKind { Invoke = 0, Automatic = 1 }
+export enum NotebookCellKind { Markup = 1, Code = 2 }
+export enum ProgressLocation { SourceControl = 1, Window = 10, Notification = 15 }
+export enum StatusBarAlignment { Left = 1, Right = 2 }
+export enum FileType { Unknown = 0, File = 1, Directory = 2, SymbolicLink = 64 }
+export enum EndOfLine { LF = 1, CRLF = 2 }
+
+// Documents
+export class TextDocument {
+    readonly uri: Uri;
+    readonly languageId: string;
+    readonly eol = EndOfLine.LF;
+    version = 1;
+    isClosed = false;
+    isDirty = false;
+    isUntitled = false;
+    private text: string;
+
+    constructor(uri: Uri, languageId: string, text: string) {
+        this.uri = uri;
+        this.languageId = languageId;
+        this.text = text;
+    }
+
+    get fileName() {
+        return this.uri.fsPath;
+    }
+
+    get lineCount() {
+        return this.lines().length;
+    }
+
+    getText(range?: Range) {
+        if (!range) {
+            return this.text;
+        }
+        return this.text.slice(this.offsetAt(range.start), this.offsetAt(range.end));
+    }
+
+    offsetAt(position: Position) {
+        let lines = this.lines();
+        let line = Math.min(Math.max(position.line, 0), lines.length - 1);
+        let offset = 0;
+        for (let i = 0; i < line; i++) {
+            offset += lines[i].length + 1;
+        }
+        return offset + Math.min(Math.max(position.character, 0), lines[line].length);
+    }
+
+    positionAt(offset: number) {
+        let before = this.text.slice(0, Math.min(Math.max(offset, 0), this.text.length)).split('\n');
+        return new Position(before.length - 1, before[before.length - 1].length);
+    }
+
+    lineAt(lineOrPosition: number | Position) {
+        let line = typeof lineOrPosition === 'number' ? lineOrPosition : lineOrPosition.line;
+        let text = this.lines()[line];
+        if (text === undefined) {
+            throw Error('Illegal value for `line`');
+        }
+        let firstNonWhitespaceCharacterIndex = text.search(/\S|$/);
+        return {
+            lineNumber: line,
+            text,
+            range: new Range(new Position(line, 0), new Position(line, text.length)),
+            rangeIncludingLineBreak: new Range(new Position(line, 0), line < this.lineCount - 1 ? new Position(line + 1, 0) : new Position(line, text.length)),
+            firstNonWhitespaceCharacterIndex,
+            isEmptyOrWhitespace: firstNonWhitespaceCharacterIndex === text.length
+        };
+    }
+
+    validatePosition(position: Position) {
+        return this.positionAt(this.offsetAt(position));
+    }
+
+    // Replace text and notify listeners the way an edit in the editor does
+    edit(range: Range, text: string) {
+        let rangeOffset = this.offsetAt(range.start);
+        let rangeLength = this.offsetAt(range.end) - rangeOffset;
+        this.text = this.text.slice(0, rangeOffset) + text + this.text.slice(rangeOffset + rangeLength);
+        this.version++;
+        onDidChangeTextDocument.fire({ document: this, contentChanges: [{ range, rangeOffset, rangeLength, text }], reason: undefined });
+    }
+
+    save() {
+        return Promise.resolve(true);
+    }
+
+    private lines() {
+        return this.text.split('\n');
+    }
+}
+
+// Workspace
+type ConfigurationChange = { affectsConfiguration(section: string): boolean };
+
+const onDidChangeConfiguration = new EventEmitter<ConfigurationChange>();
+const onDidChangeTextDocument = new EventEmitter<any>();
+const onDidChangeWorkspaceFolders = new EventEmitter<any>();
+const onDidChangeActiveTextEditor = new EventEmitter<any>();
+
+function folderOf(uri: Uri) {
+    return workspace.workspaceFolders.find((f) => f.uri.scheme === uri.scheme && (uri.path === f.uri.path || uri.path.startsWith(f.uri.path + '/')));
+}
+
+// Glob patterns of findFiles and ignore files, enough for "**", "*" and "{a,b}"
+function globToRegExp(glob: string) {
+    let res = glob.replace(/[.+^$()|[\]\\]/g, '\\$&')
+        .replace(/\*\*\//g, '\u0000')
+        .replace(/\*\*/g, '\u0001')
+        .replace(/\*/g, '[^/]*')
+        .replace(/\?/g, '[^/]')
+        .replace(/\u0000/g, '(?:.*/)?')
+        .replace(/\u0001/g, '.*')
+        .replace(/\{([^}]*)\}/g, (_, options: string) => '(?:' + options.split(',').join('|') + ')');
+    return new RegExp('^' + res + '$');
+}
+
+export const workspace = {
+    workspaceFolders: [{ uri: Uri.file('/workspace'), name: 'workspace', index: 0 }],
+    textDocuments: [] as TextDocument[],
+    notebookDocuments: [] as any[],
+
+    getConfiguration(section?: string, scope?: { languageId?: string } | null) {
+        let prefix = section ? section + '.' : '';
+        let overrides = scope?.languageId ? shim.settings[`[${scope.languageId}]`] ?? {} : {};
+        let lookup = (key: string) => {
+            let full = prefix + key;
+            if (full in overrides) {
+                return overrides[full];
+            }
+            return full in shim.settings ? shim.settings[full] : defaults[full];
+        };
+        return {
+            get<T>(key: string, defaultValue?: T): T | undefined {
+                let value = lookup(key);
+                return value === undefined ? defaultValue : value;
+            },
+            has(key: string) {
+                return lookup(key) !== undefined;
+            },
+            inspect(key: string) {
+                return { key: prefix + key, defaultValue: defaults[prefix + key], globalValue: shim.settings[prefix + key] };
+            },
+            update(key: string, value: any) {
+                configure({ [prefix + key]: value });
+                return Promise.resolve();
+            }
+        };
+    },
+
+    asRelativePath(pathOrUri: string | Uri, includeWorkspaceFolder?: boolean) {
+        let uri = typeof pathOrUri === 'string' ? Uri.file(pathOrUri) : pathOrUri;
+        let folder = folderOf(uri);
+        if (!folder) {
+            return typeof pathOrUri === 'string' ? pathOrUri : uri.fsPath;
+        }
+        let relative = path.posix.relative(folder.uri.path, uri.path);
+        return includeWorkspaceFolder && workspace.workspaceFolders.length > 1 ? folder.name + '/' + relative : relative;
+    },
+
+    getWorkspaceFolder(uri: Uri) {
+        return folderOf(uri);
+    },
+
+    async findFiles(include: string, exclude?: string | null, maxResults?: number) {
+        let includeRe = globToRegExp(include);
+        let excludeRe = exclude ? globToRegExp(exclude) : null;
+        let res: Uri[] = [];
+        for (let key of shim.files.keys()) {
+            let uri = Uri.parse(key);
+            let folder = folderOf(uri);
+            if (!folder) {
+                continue;
+            }
+            let relative = path.posix.relative(folder.uri.path, uri.path);
+            if (includeRe.test(relative) && !(excludeRe && excludeRe.test(relative))) {
+                res.push(uri);
+            }
+        }
+        return res.slice(0, maxResults);
+    },
+
+    createFileSystemWatcher() {
+        let created = new EventEmitter<Uri>();
+        let changed = new EventEmitter<Uri>();
+        let deleted = new EventEmitter<Uri>();
+        return {
+            onDidCreate: created.event,
+            onDidChange: changed.event,
+            onDidDelete: deleted.event,
+            dispose() {
+                created.dispose();
+                changed.dispose();
+                deleted.dispose();
+            }
+        };
+    },
+
+    fs: {
+        async readFile(uri: Uri) {
+            let content = shim.files.get(uri.toString());
+            if (content === undefined) {
+                throw FileSystemError.FileNotFound(uri);
+            }
+            return new TextEncoder().encode(content);
+        },
+        async writeFile(uri: Uri, content: Uint8Array) {
+            shim.files.set(uri.toString(), new TextDecoder().decode(content));
+        },
+        async stat(uri: Uri) {
+            let content = shim.files.get(uri.toString());
+            if (content === undefined) {
+                throw FileSystemError.FileNotFound(uri);
+            }
+            return { type: FileType.File, ctime: 0, mtime: 0, size: Buffer.byteLength(content) };
+        },
+        async delete(uri: Uri) {
+            if (!shim.files.delete(uri.toString())) {
+                throw FileSystemError.FileNotFound(uri);
+            }
+        },
+        async createDirectory() {
+            // Directories are implied by file paths
+        }
+    },
+
+    onDidChangeConfiguration: onDidChangeConfiguration.event,
+    onDidChangeTextDocument: onDidChangeTextDocument.event,
+    onDidChangeWorkspaceFolders: onDidChangeWorkspaceFolders.event
+};
+
+// Window
+type Message = { type: 'information' | 'warning' | 'error', message: string, items: string[] };
+
+function showMessage(type: Message['type'], message: string, items: any[]) {
+    let labels = items.filter((i) => typeof i === 'string' || (typeof i === 'object' && i !== null && 'title' in i)).map((i) => typeof i === 'string' ? i : i.title);
+    shim.messages.push({ type, message, items: labels });
+    return Promise.resolve(labels.length > 0 ? shim.answers.shift() : undefined);
+}
+
+export const window = {
+    activeTextEditor: undefined as any,
+    visibleTextEditors: [] as any[],
+    tabGroups: { all: [] as { tabs: { input: unknown }[] }[] },
+    onDidChangeActiveTextEditor: onDidChangeActiveTextEditor.event,
+
+    showInformationMessage(message: string, ...items: any[]) {
+        return showMessage('information', message, items);
+    },
+
+    showWarningMessage(message: string, ...items: any[]) {
+        return showMessage('warning', message, items);
+    },
+
+    showErrorMessage(message: string, ...items: any[]) {
+        return showMessage('error', message, items);
+    },
+
+    async withProgress<R>(options: { location: ProgressLocation, title?: string, cancellable?: boolean }, task: (progress: { report(value: { message?: string, increment?: number }): void }, token: CancellationTokenSource['token']) => Promise<R>) {
+        let source = new CancellationTokenSource();
+        let report = { title: options.title, reports: [] as { message?: string, increment?: number }[], cancel: () => source.cancel() };
+        shim.progress.push(report);
+        try {
+            return await task({ report: (value) => report.reports.push(value) }, source.token);
+        } finally {
+            source.dispose();
+        }
+    },
+
+    createStatusBarItem() {
+        return createStatusBarItem();
+    },
+
+    createOutputChannel(name: string) {
+        let lines: string[] = [];
+        let log = (message: string, ...args: any[]) => lines.push([message, ...args.map(String)].join(' '));
+        return { name, lines, info: log, warn: log, error: log, debug: log, trace: log, appendLine: log, show() { }, dispose() { } };
+    }
+};
+
+export const commands = {
+    registerCommand(command: string, callback: (...args: any[]) => any) {
+        shim.commandHandlers.set(command, callback);
+        return new Disposable(() => shim.commandHandlers.delete(command));
+    },
+
+    async executeCommand(command: string, ...args: any[]) {
+        shim.commands.push({ command, args });
+        return await shim.commandHandlers.get(command)?.(...args);
+    }
+};
+
+export const languages = {
+    registerInlineCompletionItemProvider() {
+        return new Disposable(() => { });
+    }
+};
+
+export const env = {
+    clipboard: {
+        text: '',
+        async readText() {
+            return this.text;
+        },
+        async writeText(value: string) {
+            this.text = value;
+        }
+    }
+};
+
+export const extensions = {
+    getExtension(): undefined {
+        return undefined;
+    }
+};
+
+//
+// Test helpers
+//
+
+export const shim = {
+    settings: {} as { [key: string]: any },
+    files: new Map<string, string>(),
+    answers: [] as (string | undefined)[], // Answers to the next prompts with items, undefined dismisses
+    messages: [] as Message[],
+    progress: [] as { title?: string, reports: { message?: string, increment?: number }[], cancel: () => void }[],
+    commands: [] as { command: string, args: any[] }[],
+    commandHandlers: new Map<string, (...args: any[]) => any>()
+};
+
+// Change settings, keys are full names like "inference.model" or language overrides like "[python]"
+export function configure(settings: { [key: string]: any }) {
+    Object.assign(shim.settings, settings);
+    let keys = Object.keys(settings);
+    onDidChangeConfiguration.fire({ affectsConfiguration: (section) => keys.some((k) => k === section || k.startsWith(section + '.')) });
+}
+
+export function resetShim() {
+    shim.settings = {};
+    shim.files.clear();
+    shim.answers = [];
+    shim.messages = [];
+    shim.progress = [];
+    shim.commands = [];
+    shim.commandHandlers.clear();
+    workspace.textDocuments = [];
+    window.activeTextEditor = undefined;
+    window.tabGroups.all = [];
+}
+
+export function openDocument(args: { path: string, languageId: string, text: string }) {
+    let document = new TextDocument(Uri.file(args.path), args.languageId, args.text);
+    workspace.textDocuments.push(document);
+    return document;
+}
+
+// Make document the active editor and open it in a tab of the first group
+export function activateDocument(document: TextDocument) {
+    if (window.tabGroups.all.length === 0) {
+        window.tabGroups.all.push({ tabs: [] });
+    }
+    if (!window.tabGroups.all.some((g) => g.tabs.some((t) => t.input instanceof TabInputText && t.input.uri.toString() === document.uri.toString()))) {
+        window.tabGroups.all[0].tabs.push({ input: new TabInputText(document.uri) });
+    }
+    window.activeTextEditor = { document };
+    onDidChangeActiveTextEditor.fire(window.activeTextEditor);
+}
+
+export function createStatusBarItem() {
+    return {
+        text: '',
+        tooltip: undefined as string | undefined,
+        command: undefined as string | undefined,
+        backgroundColor: undefined as ThemeColor | undefined,
+        visible: false,
+        show() {
+            this.visible = true;
+        },
+        hide() {
+            this.visible = false;
+        },
+        dispose() { }
+    };
+}
+
+export function createExtensionContext() {
+    let memento = () => {
+        let values = new Map<string, any>();
+        return {
+            keys: () => [...values.keys()],
+            get<T>(key: string, defaultValue?: T): T | undefined {
+                return values.has(key) ? values.get(key) : defaultValue;
+            },
+            update(key: string, value: any) {
+                if (value === undefined) {
+                    values.delete(key);
+                } else {
+                    values.set(key, value);
+                }
+                return Promise.resolve();
+            },
+            setKeysForSync() { }
+        };
+    };
+    return {
+        subscriptions: [] as { dispose(): any }[],
+        globalState: memento(),
+        workspaceState: memento(),
+        extensionUri: Uri.file('/extension'),
+        globalStorageUri: Uri.file('/storage/global'),
+        storageUri: Uri.file('/storage/workspace'),
+        extensionMode: 3
+    };
+}
+
+// Default export mirrors `import vscode from 'vscode'` used across the extension
+export default {
+    Position,
+    Range,
+    Selection,
+    Uri,
+    ThemeColor,
+    Disposable,
+    EventEmitter,
+    CancellationTokenSource,
+    FileSystemError,
+    TabInputText,
+    InlineCompletionItem,
+    InlineCompletionTriggerKind,
+    NotebookCellKind,
+    ProgressLocation,
+    StatusBarAlignment,
+    FileType,
+    EndOfLine,
+    workspace,
+    window,
+    commands,
+    languages,
+    env,
+    extensions
+};